@@ -0,0 +1,29 @@
+/**
+ * Backfill Script: Dream Counters on Existing Subscriptions
+ * maxDreams used to be enforced by counting the dreamer's dreams since the
+ * subscription started. UserPlan.dreamsUsed replaced that count and starts at
+ * 0, so set it from the same count to keep existing subscribers' allowance.
+ * Run once after deploying UserPlan.dreamsUsed; safe to run again.
+ */
+
+import prisma from "./src/lib/prisma";
+
+async function backfillDreamsUsed() {
+  try {
+    const updated = await prisma.$executeRaw`
+      UPDATE user_plans up
+      SET dreams_used = (
+        SELECT COUNT(*) FROM dreams d
+        WHERE d.dreamer_id = up.user_id AND d.created_at >= up.started_at
+      )
+    `;
+
+    console.log(`✅ Set dreamsUsed on ${updated} subscriptions`);
+  } catch (error) {
+    console.error("❌ Error:", error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+backfillDreamsUsed();
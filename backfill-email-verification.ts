@@ -0,0 +1,31 @@
+/**
+ * Backfill Script: Mark Existing Accounts as Verified
+ * Accounts registered before email verification existed never got a
+ * verification email, so they'd be locked out of submitting dreams.
+ * Run once after deploying email verification; safe to run again.
+ */
+
+import prisma from "./src/lib/prisma";
+
+async function backfillEmailVerification() {
+  try {
+    // Every account registered since verification shipped has been sent at
+    // least one verification token, so accounts without any predate it.
+    const updated = await prisma.$executeRaw`
+      UPDATE users
+      SET email_verified_at = created_at
+      WHERE email_verified_at IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM email_verification_tokens t WHERE t.user_id = users.id
+        )
+    `;
+
+    console.log(`✅ Marked ${updated} existing accounts as verified`);
+  } catch (error) {
+    console.error("❌ Error:", error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+backfillEmailVerification();
@@ -0,0 +1,46 @@
+/**
+ * Backfill Script: Opening Balance in the Usage Ledger
+ * Subscriptions that started before the usage ledger have counters but no
+ * events explaining them, so reconciling would reset their usage to zero.
+ * Write one opening_balance event per counter for the usage the ledger
+ * doesn't already account for, dated at the start of the subscription.
+ * Run once after deploying the usage ledger (and after
+ * backfill-dreams-used.ts); safe to run again.
+ */
+
+import prisma from "./src/lib/prisma";
+
+async function backfillUsageOpeningBalance() {
+  try {
+    // Every counter gets a row, even at zero, so each subscription has at
+    // least one event afterwards and can be reconciled.
+    const inserted = await prisma.$executeRaw`
+      INSERT INTO usage_events (id, user_plan_id, user_id, kind, amount, reason, created_at)
+      SELECT UUID(), up.id, up.user_id, counters.kind,
+        counters.used - COALESCE((
+          SELECT SUM(e.amount) FROM usage_events e
+          WHERE e.user_plan_id = up.id AND e.kind = counters.kind AND e.created_at >= up.started_at
+        ), 0),
+        'opening_balance', up.started_at
+      FROM user_plans up
+      JOIN (
+        SELECT id, 'letters' AS kind, letters_used AS used FROM user_plans
+        UNION ALL SELECT id, 'audio_minutes', audio_minutes_used FROM user_plans
+        UNION ALL SELECT id, 'dreams', dreams_used FROM user_plans
+        UNION ALL SELECT id, 'interpretations', interpretations_used FROM user_plans
+      ) counters ON counters.id = up.id
+      WHERE NOT EXISTS (
+        SELECT 1 FROM usage_events o
+        WHERE o.user_plan_id = up.id AND o.reason = 'opening_balance'
+      )
+    `;
+
+    console.log(`✅ Wrote ${inserted} opening-balance usage events`);
+  } catch (error) {
+    console.error("❌ Error:", error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+backfillUsageOpeningBalance();
@@ -31,6 +31,8 @@ async function main() {
       maxInterpretations: 1,
       letterQuota: 1500,
       audioMinutesQuota: 0,
+      slaHours: 48,
+      followUpRounds: 1,
       countryCodes: ['EG'],
       features: ['رؤية واحدة', 'تفسير واحد', 'دعم البريد الإلكتروني خلال 48 ساعة'],
       isActive: true,
@@ -46,6 +48,8 @@ async function main() {
       maxInterpretations: 5,
       letterQuota: 8000,
       audioMinutesQuota: 15,
+      slaHours: 24,
+      followUpRounds: 2,
       countryCodes: ['EG'],
       features: ['حتى 10 رؤى في الشهر', '5 تفسيرات معتمدة', 'متابعة عبر البريد خلال 24 ساعة'],
       isActive: true,
@@ -61,6 +65,8 @@ async function main() {
       maxInterpretations: 15,
       letterQuota: 20000,
       audioMinutesQuota: 45,
+      slaHours: 12,
+      followUpRounds: 3,
       features: ['30 رؤية شهرية', '15 تفسير معتمد', 'قناة دعم مخصصة', 'تقارير شهرية مبسطة'],
       isActive: true,
     },
@@ -75,6 +81,8 @@ async function main() {
       maxInterpretations: null,
       letterQuota: null,
       audioMinutesQuota: 180,
+      slaHours: 6,
+      followUpRounds: 5,
       features: ['رؤى غير محدودة', 'تفسيرات غير محدودة', 'دعم 24/7', 'تقارير متقدمة وتحليلات'],
       isActive: true,
     },
@@ -102,6 +110,7 @@ async function main() {
     create: {
       email: adminEmail,
       password: adminPassword,
+      emailVerifiedAt: new Date(),
       profile: {
         create: {
           email: adminEmail,
@@ -130,6 +139,7 @@ async function main() {
     create: {
       email: regularAdminEmail,
       password: regularAdminPassword,
+      emailVerifiedAt: new Date(),
       profile: {
         create: {
           email: regularAdminEmail,
@@ -155,6 +165,7 @@ async function main() {
     create: {
       email: interpreterEmail,
       password: interpreterPassword,
+      emailVerifiedAt: new Date(),
       profile: {
         create: {
           email: interpreterEmail,
@@ -182,6 +193,7 @@ async function main() {
     create: {
       email: dreamerEmail,
       password: dreamerPassword,
+      emailVerifiedAt: new Date(),
       profile: {
         create: {
           email: dreamerEmail,
@@ -0,0 +1,118 @@
+import express from 'express';
+import cors from 'cors';
+import cookieParser from 'cookie-parser';
+import morgan from 'morgan';
+import path from 'path';
+
+import authRouter from './routes/auth';
+import twoFactorRouter from './routes/two-factor';
+import oidcMockRouter from './routes/oidc-mock';
+import profileRouter from './routes/profile';
+import apiKeysRouter from './routes/api-keys';
+import dreamsRouter from './routes/dreams';
+import messagesRouter from './routes/messages';
+import commentsRouter from './routes/comments';
+import requestsRouter from './routes/requests';
+import chatRouter from './routes/chat';
+import notificationsRouter from './routes/notifications';
+import plansRouter from './routes/plans';
+import paymentsRoutes from './routes/payments';
+import adminRouter from './routes/admin';
+import adminPagesRouter from './routes/admin-pages';
+import pagesRouter from './routes/pages';
+import feedRouter from './routes/feed';
+import symbolsRouter from './routes/symbols';
+import { isOidcMockEnabled } from './lib/oidc';
+
+export function getAllowedOrigins() {
+  return (process.env.CORS_ORIGINS || 'http://localhost:3000')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+}
+
+/**
+ * The Express app with every route mounted. Built after .env is loaded, since
+ * some routes are only mounted depending on the environment. Listening and
+ * background jobs are started by server.ts.
+ */
+export function createApp() {
+  const app = express();
+
+  // CORS configuration
+  app.use(
+    cors({
+      origin: getAllowedOrigins(),
+      credentials: true,
+      methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'Cookie'],
+    })
+  );
+
+  // Body parsing middleware
+  app.use(express.json({ limit: '10mb' }));
+  app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+  app.use(cookieParser());
+
+  // Logging middleware
+  if (process.env.NODE_ENV !== 'test') {
+    app.use(morgan('dev'));
+  }
+
+  // Static file serving for uploads
+  app.use('/uploads', express.static(path.join(__dirname, '../public/uploads')));
+
+  // Health check endpoint
+  app.get('/api/health', (_req, res) => {
+    res.json({
+      status: 'ok',
+      service: 'mubasharat-backend',
+      timestamp: new Date().toISOString(),
+      port: Number(process.env.PORT) || 5000
+    });
+  });
+
+  // API routes
+  app.use('/api/auth/2fa', twoFactorRouter);
+  app.use('/api/auth', authRouter);
+  app.use('/api/profile', profileRouter);
+  app.use('/api/api-keys', apiKeysRouter);
+  app.use('/api/dreams', dreamsRouter);
+  app.use('/api/messages', messagesRouter);
+  app.use('/api/comments', commentsRouter);
+  app.use('/api/requests', requestsRouter);
+  app.use('/api/chat', chatRouter);
+  app.use('/api/notifications', notificationsRouter);
+  app.use('/api/plans', plansRouter);
+  app.use('/api/payments', paymentsRoutes);
+  app.use('/api/admin', adminRouter);
+  app.use('/api/admin/pages', adminPagesRouter);
+  app.use('/api/pages', pagesRouter);
+  app.use('/api/feed', feedRouter);
+  app.use('/api/symbols', symbolsRouter);
+
+  // Development only: the mock provider signs in as any email address
+  if (isOidcMockEnabled()) {
+    app.use('/api/oidc-mock', oidcMockRouter);
+  }
+
+  // 404 handler
+  app.use((_req, res) => {
+    res.status(404).json({ error: 'Route not found' });
+  });
+
+  // Global error handler
+  app.use((err: any, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    console.error('[Backend Error]:', err);
+
+    const statusCode = err?.status || err?.statusCode || 500;
+    const message = err?.message || 'Internal server error';
+
+    res.status(statusCode).json({
+      error: message,
+      ...(process.env.NODE_ENV === 'development' && { stack: err?.stack })
+    });
+  });
+
+  return app;
+}
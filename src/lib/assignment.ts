@@ -0,0 +1,232 @@
+import { DreamStatus, Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { recordDreamStatusChange } from '../utils/dreamStatus';
+import { checkInterpretationQuota } from '../utils/quota';
+
+export interface AssignmentCandidate {
+  id: string;
+  fullName: string | null;
+  rating: number;
+  openDreams: number;
+  capacity: number;
+  lastAssignedAt: Date | null;
+}
+
+/**
+ * Picks an interpreter from candidates that are already known to be available
+ * and under capacity. Register custom strategies with registerAssignmentStrategy.
+ */
+export interface AssignmentStrategy {
+  name: string;
+  rank(candidates: AssignmentCandidate[]): AssignmentCandidate[];
+}
+
+// Statuses that count towards an interpreter's workload
+export const OPEN_DREAM_STATUSES: DreamStatus[] = ['pending_interpretation', 'pending_inquiry'];
+
+const DEFAULT_CAPACITY = Number(process.env.INTERPRETER_DEFAULT_CAPACITY || 10);
+
+// "off" disables assignment on dream creation; admins can still assign by hand or via the API
+export const AUTO_ASSIGN_STRATEGY = process.env.DREAM_AUTO_ASSIGN_STRATEGY || 'least_loaded';
+
+const byLastAssigned = (a: AssignmentCandidate, b: AssignmentCandidate) =>
+  (a.lastAssignedAt?.getTime() ?? 0) - (b.lastAssignedAt?.getTime() ?? 0) || a.id.localeCompare(b.id);
+
+const loadRatio = (candidate: AssignmentCandidate) => candidate.openDreams / candidate.capacity;
+
+const strategies = new Map<string, AssignmentStrategy>();
+
+export function registerAssignmentStrategy(strategy: AssignmentStrategy) {
+  strategies.set(strategy.name, strategy);
+}
+
+registerAssignmentStrategy({
+  name: 'round_robin',
+  rank: (candidates) => [...candidates].sort(byLastAssigned),
+});
+
+registerAssignmentStrategy({
+  name: 'least_loaded',
+  rank: (candidates) => [...candidates].sort((a, b) => loadRatio(a) - loadRatio(b) || byLastAssigned(a, b)),
+});
+
+registerAssignmentStrategy({
+  name: 'highest_rated',
+  rank: (candidates) =>
+    [...candidates].sort((a, b) => b.rating - a.rating || loadRatio(a) - loadRatio(b) || byLastAssigned(a, b)),
+});
+
+export function getAssignmentStrategy(name: string) {
+  return strategies.get(name) ?? null;
+}
+
+export function listAssignmentStrategies() {
+  return Array.from(strategies.keys());
+}
+
+/**
+ * Lock interpreter profile rows until the transaction ends. Assignments and
+ * claims take these locks before reading workloads, so concurrent ones for the
+ * same interpreter run one at a time and each counts the dreams the others
+ * just took. Must be the first query in the transaction, before MySQL fixes
+ * the snapshot later reads are served from.
+ */
+export async function lockInterpreters(tx: Prisma.TransactionClient, interpreterIds?: string[]) {
+  if (interpreterIds) {
+    if (interpreterIds.length === 0) return;
+    // Always in id order, so two transactions can't each hold what the other wants
+    await tx.$queryRaw`
+      SELECT id FROM profiles WHERE id IN (${Prisma.join(interpreterIds)}) ORDER BY id FOR UPDATE
+    `;
+    return;
+  }
+  await tx.$queryRaw`SELECT id FROM profiles WHERE role = 'interpreter' ORDER BY id FOR UPDATE`;
+}
+
+/**
+ * Every interpreter with their workload, or just the given profiles whatever
+ * their role (e.g. someone claiming a dream). `eligible` is false for anyone
+ * who is unavailable, suspended or at capacity.
+ */
+export async function loadInterpreterWorkloads(
+  db: Prisma.TransactionClient = prisma,
+  interpreterIds?: string[]
+) {
+  const [interpreters, workloads] = await Promise.all([
+    db.profile.findMany({
+      where: interpreterIds ? { id: { in: interpreterIds } } : { role: 'interpreter' },
+      select: {
+        id: true,
+        fullName: true,
+        rating: true,
+        isAvailable: true,
+        maxOpenDreams: true,
+        lastAssignedAt: true,
+        user: { select: { suspendedAt: true } },
+      },
+    }),
+    db.dream.groupBy({
+      by: ['interpreterId'],
+      where: {
+        interpreterId: interpreterIds ? { in: interpreterIds } : { not: null },
+        status: { in: OPEN_DREAM_STATUSES },
+      },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const openByInterpreter = new Map(workloads.map((row) => [row.interpreterId, row._count._all]));
+
+  return interpreters.map((interpreter) => {
+    const openDreams = openByInterpreter.get(interpreter.id) ?? 0;
+    const capacity = interpreter.maxOpenDreams ?? DEFAULT_CAPACITY;
+    const isSuspended = Boolean(interpreter.user.suspendedAt);
+
+    return {
+      id: interpreter.id,
+      fullName: interpreter.fullName,
+      rating: Number(interpreter.rating),
+      openDreams,
+      capacity,
+      lastAssignedAt: interpreter.lastAssignedAt,
+      isAvailable: interpreter.isAvailable,
+      isSuspended,
+      eligible: interpreter.isAvailable && !isSuspended && capacity > 0 && openDreams < capacity,
+    };
+  });
+}
+
+/** Rank eligible interpreters without assigning anything. */
+export async function previewAssignment(
+  strategyName: string,
+  db: Prisma.TransactionClient = prisma,
+  excludeIds: string[] = []
+) {
+  const strategy = getAssignmentStrategy(strategyName);
+  if (!strategy) {
+    return null;
+  }
+
+  const workloads = await loadInterpreterWorkloads(db);
+  const ranked = strategy.rank(
+    workloads.filter((candidate) => candidate.eligible && !excludeIds.includes(candidate.id))
+  );
+
+  return {
+    strategy: strategy.name,
+    selected: ranked[0] ?? null,
+    ranked,
+    ineligible: workloads.filter((candidate) => !candidate.eligible),
+  };
+}
+
+export type AssignmentResult =
+  | { status: 'assigned'; interpreterId: string; strategy: string }
+  | { status: 'no_candidate' }
+  | { status: 'not_assignable' }
+  | { status: 'quota_exceeded'; limit: number }
+  | { status: 'unknown_strategy' };
+
+/**
+ * Assign a new, unassigned dream to the best interpreter for the strategy and
+ * move it to pending_interpretation. Safe to race: only one caller can claim
+ * the dream, and interpreter locks keep parallel assignments within capacity.
+ */
+export async function autoAssignDream(
+  dreamId: string,
+  options: { strategy?: string; actorId?: string | null; excludeIds?: string[]; reason?: string } = {}
+): Promise<AssignmentResult> {
+  const strategyName = options.strategy ?? AUTO_ASSIGN_STRATEGY;
+
+  return prisma.$transaction(async (tx) => {
+    // Any interpreter may be picked, so hold them all while choosing
+    await lockInterpreters(tx);
+
+    const preview = await previewAssignment(strategyName, tx, options.excludeIds);
+    if (!preview) {
+      return { status: 'unknown_strategy' };
+    }
+    if (!preview.selected) {
+      return { status: 'no_candidate' };
+    }
+
+    const dream = await tx.dream.findUnique({
+      where: { id: dreamId },
+      select: { dreamerId: true, userPlanId: true },
+    });
+    if (!dream) {
+      return { status: 'not_assignable' };
+    }
+
+    const quota = await checkInterpretationQuota(dream, tx);
+    if (!quota.allowed) {
+      return { status: 'quota_exceeded', limit: quota.limit };
+    }
+
+    const interpreterId = preview.selected.id;
+
+    const { count } = await tx.dream.updateMany({
+      where: { id: dreamId, status: 'new', interpreterId: null },
+      data: { interpreterId, status: 'pending_interpretation' },
+    });
+
+    if (count === 0) {
+      return { status: 'not_assignable' };
+    }
+
+    await tx.profile.update({
+      where: { id: interpreterId },
+      data: { lastAssignedAt: new Date() },
+    });
+
+    await recordDreamStatusChange(tx, {
+      dreamId,
+      fromStatus: 'new',
+      toStatus: 'pending_interpretation',
+      changedById: options.actorId ?? null,
+      reason: options.reason ?? `Assigned automatically (${preview.strategy})`,
+    });
+
+    return { status: 'assigned', interpreterId, strategy: preview.strategy };
+  });
+}
@@ -0,0 +1,159 @@
+import prisma from './prisma';
+import { loadInterpreterWorkloads, lockInterpreters } from './assignment';
+import { recordDreamStatusChange } from '../utils/dreamStatus';
+import { checkInterpretationQuota } from '../utils/quota';
+
+// How long an interpreter has to interpret or ask a question after claiming a dream
+export const CLAIM_TTL_MINUTES = Number(process.env.DREAM_CLAIM_TTL_MINUTES || 120);
+const SWEEP_INTERVAL_SECONDS = Number(process.env.DREAM_CLAIM_SWEEP_SECONDS || 60);
+
+export type ClaimResult =
+  | { status: 'claimed'; claimExpiresAt: Date }
+  | { status: 'unavailable' }
+  | { status: 'at_capacity'; capacity: number }
+  | { status: 'already_claimed' }
+  | { status: 'quota_exceeded'; limit: number };
+
+/**
+ * Take a dream from the unassigned queue. Only succeeds while the dream is
+ * still new and unassigned, so two interpreters can't claim the same one, and
+ * while the interpreter is under capacity counting claims made in parallel.
+ */
+export async function claimDream(dreamId: string, interpreterId: string): Promise<ClaimResult> {
+  return prisma.$transaction(async (tx) => {
+    // Parallel claims by the same interpreter wait here, then see each other's dreams
+    await lockInterpreters(tx, [interpreterId]);
+
+    const [workload] = await loadInterpreterWorkloads(tx, [interpreterId]);
+
+    if (!workload || !workload.isAvailable || workload.isSuspended) {
+      return { status: 'unavailable' };
+    }
+    if (!workload.eligible) {
+      return { status: 'at_capacity', capacity: workload.capacity };
+    }
+
+    const dream = await tx.dream.findUnique({
+      where: { id: dreamId },
+      select: { dreamerId: true, userPlanId: true },
+    });
+    if (!dream) {
+      return { status: 'already_claimed' };
+    }
+
+    const quota = await checkInterpretationQuota(dream, tx);
+    if (!quota.allowed) {
+      return { status: 'quota_exceeded', limit: quota.limit };
+    }
+
+    const now = new Date();
+    const claimExpiresAt = new Date(now.getTime() + CLAIM_TTL_MINUTES * 60 * 1000);
+
+    const { count } = await tx.dream.updateMany({
+      where: { id: dreamId, status: 'new', interpreterId: null },
+      data: { interpreterId, status: 'pending_interpretation', claimedAt: now, claimExpiresAt },
+    });
+
+    if (count === 0) {
+      return { status: 'already_claimed' };
+    }
+
+    await recordDreamStatusChange(tx, {
+      dreamId,
+      fromStatus: 'new',
+      toStatus: 'pending_interpretation',
+      changedById: interpreterId,
+      reason: 'Claimed from the queue',
+    });
+
+    return { status: 'claimed', claimExpiresAt };
+  });
+}
+
+/**
+ * Hand a claimed dream back to the queue. Only the claiming interpreter can,
+ * and only before the claim has been fulfilled.
+ */
+export async function releaseDreamClaim(dreamId: string, interpreterId: string, reason?: string | null) {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.dream.updateMany({
+      where: {
+        id: dreamId,
+        interpreterId,
+        status: 'pending_interpretation',
+        claimExpiresAt: { not: null },
+      },
+      data: { interpreterId: null, status: 'new', claimedAt: null, claimExpiresAt: null },
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    await recordDreamStatusChange(tx, {
+      dreamId,
+      fromStatus: 'pending_interpretation',
+      toStatus: 'new',
+      changedById: interpreterId,
+      reason: reason?.trim() || 'Claim released',
+    });
+
+    return true;
+  });
+}
+
+/** Return every lapsed claim to the queue. Returns how many were released. */
+export async function releaseExpiredClaims(now = new Date()) {
+  const expired = await prisma.dream.findMany({
+    where: { status: 'pending_interpretation', claimExpiresAt: { lte: now } },
+    select: { id: true },
+    take: 500,
+  });
+
+  let released = 0;
+
+  for (const dream of expired) {
+    const didRelease = await prisma.$transaction(async (tx) => {
+      // Re-check inside the transaction: the interpreter may have acted since the query above
+      const { count } = await tx.dream.updateMany({
+        where: { id: dream.id, status: 'pending_interpretation', claimExpiresAt: { lte: now } },
+        data: { interpreterId: null, status: 'new', claimedAt: null, claimExpiresAt: null },
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      await recordDreamStatusChange(tx, {
+        dreamId: dream.id,
+        fromStatus: 'pending_interpretation',
+        toStatus: 'new',
+        changedById: null,
+        reason: 'Claim expired',
+      });
+
+      return true;
+    });
+
+    if (didRelease) {
+      released += 1;
+    }
+  }
+
+  return released;
+}
+
+export function startClaimExpiryJob() {
+  const timer = setInterval(() => {
+    releaseExpiredClaims()
+      .then((released) => {
+        if (released > 0) {
+          console.log(`[Claims] Returned ${released} expired claim(s) to the queue`);
+        }
+      })
+      .catch((error) => console.error('[Claims] Expiry sweep error:', error));
+  }, SWEEP_INTERVAL_SECONDS * 1000);
+
+  timer.unref();
+  return timer;
+}
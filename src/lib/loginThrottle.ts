@@ -0,0 +1,171 @@
+export interface AttemptRecord {
+  key: string;
+  failures: number;
+  firstFailureAt: number;
+  lastFailureAt: number;
+  lockedUntil: number | null;
+}
+
+/**
+ * Storage for failed login attempts. The in-process store is the default;
+ * register a shared backend (e.g. Redis) with setAttemptStore when running
+ * more than one instance.
+ */
+export interface AttemptStore {
+  get(key: string): Promise<AttemptRecord | null>;
+  set(record: AttemptRecord, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(): Promise<AttemptRecord[]>;
+}
+
+export function createMemoryAttemptStore(): AttemptStore {
+  const records = new Map<string, { record: AttemptRecord; expiresAt: number }>();
+
+  const prune = () => {
+    const now = Date.now();
+    for (const [key, entry] of records) {
+      if (entry.expiresAt <= now) {
+        records.delete(key);
+      }
+    }
+  };
+
+  return {
+    async get(key) {
+      const entry = records.get(key);
+      if (!entry || entry.expiresAt <= Date.now()) {
+        records.delete(key);
+        return null;
+      }
+      return { ...entry.record };
+    },
+    async set(record, ttlMs) {
+      records.set(record.key, { record: { ...record }, expiresAt: Date.now() + ttlMs });
+    },
+    async delete(key) {
+      records.delete(key);
+    },
+    async list() {
+      prune();
+      return Array.from(records.values()).map((entry) => ({ ...entry.record }));
+    },
+  };
+}
+
+let store: AttemptStore = createMemoryAttemptStore();
+
+export function setAttemptStore(next: AttemptStore) {
+  store = next;
+}
+
+const MAX_FAILURES_PER_EMAIL = Number(process.env.LOGIN_MAX_FAILURES || 5);
+const MAX_FAILURES_PER_IP = Number(process.env.LOGIN_MAX_FAILURES_PER_IP || 20);
+const LOCKOUT_MS = Number(process.env.LOGIN_LOCKOUT_MINUTES || 15) * 60 * 1000;
+const FAILURE_WINDOW_MS = Number(process.env.LOGIN_FAILURE_WINDOW_MINUTES || 15) * 60 * 1000;
+const FREE_ATTEMPTS = 2;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30 * 1000;
+
+export function throttleKeys(email: string, ip?: string | null) {
+  const keys = [`email:${email.trim().toLowerCase()}`];
+  if (ip) {
+    keys.push(`ip:${ip}`);
+  }
+  return keys;
+}
+
+function maxFailuresFor(key: string) {
+  return key.startsWith('ip:') ? MAX_FAILURES_PER_IP : MAX_FAILURES_PER_EMAIL;
+}
+
+// Each failure past the free attempts doubles the wait before the next try
+function delayFor(failures: number) {
+  if (failures <= FREE_ATTEMPTS) {
+    return 0;
+  }
+  return Math.min(BASE_DELAY_MS * 2 ** (failures - FREE_ATTEMPTS - 1), MAX_DELAY_MS);
+}
+
+export type ThrottleDecision =
+  | { allowed: true }
+  | { allowed: false; reason: 'locked' | 'throttled'; retryAfterSeconds: number; key: string };
+
+export async function checkLoginAllowed(keys: string[]): Promise<ThrottleDecision> {
+  const now = Date.now();
+
+  for (const key of keys) {
+    const record = await store.get(key);
+    if (!record) continue;
+
+    if (record.lockedUntil && record.lockedUntil > now) {
+      return {
+        allowed: false,
+        reason: 'locked',
+        retryAfterSeconds: Math.ceil((record.lockedUntil - now) / 1000),
+        key,
+      };
+    }
+
+    const nextAllowedAt = record.lastFailureAt + delayFor(record.failures);
+    if (nextAllowedAt > now) {
+      return {
+        allowed: false,
+        reason: 'throttled',
+        retryAfterSeconds: Math.ceil((nextAllowedAt - now) / 1000),
+        key,
+      };
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Count a failed attempt against every key. Returns the keys that have just
+ * crossed their limit and are now locked out.
+ */
+export async function recordLoginFailure(keys: string[]): Promise<string[]> {
+  const now = Date.now();
+  const newlyLocked: string[] = [];
+
+  for (const key of keys) {
+    const existing = await store.get(key);
+    const expired = existing && (existing.lockedUntil
+      ? existing.lockedUntil <= now
+      : now - existing.firstFailureAt > FAILURE_WINDOW_MS);
+
+    const record: AttemptRecord = existing && !expired
+      ? { ...existing, failures: existing.failures + 1, lastFailureAt: now }
+      : { key, failures: 1, firstFailureAt: now, lastFailureAt: now, lockedUntil: null };
+
+    if (!record.lockedUntil && record.failures >= maxFailuresFor(key)) {
+      record.lockedUntil = now + LOCKOUT_MS;
+      newlyLocked.push(key);
+    }
+
+    await store.set(record, Math.max(LOCKOUT_MS, FAILURE_WINDOW_MS));
+  }
+
+  return newlyLocked;
+}
+
+export async function clearLoginFailures(key: string) {
+  await store.delete(key);
+}
+
+export async function listLoginLockouts() {
+  const now = Date.now();
+  const records = await store.list();
+
+  return records
+    .filter((record) => record.failures > 0)
+    .map((record) => ({
+      key: record.key,
+      failures: record.failures,
+      firstFailureAt: new Date(record.firstFailureAt).toISOString(),
+      lastFailureAt: new Date(record.lastFailureAt).toISOString(),
+      lockedUntil: record.lockedUntil ? new Date(record.lockedUntil).toISOString() : null,
+      isLocked: Boolean(record.lockedUntil && record.lockedUntil > now),
+    }))
+    .sort((a, b) => b.lastFailureAt.localeCompare(a.lastFailureAt));
+}
@@ -0,0 +1,81 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { join } from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export const consoleTransport: MailTransport = {
+  name: 'console',
+  async send(message) {
+    console.log(`[Mailer] To: ${message.to}`);
+    console.log(`[Mailer] Subject: ${message.subject}`);
+    console.log(message.text);
+  },
+};
+
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+      const entry = JSON.stringify({ ...message, sentAt: new Date().toISOString() });
+      await appendFile(join(directory, 'outbox.jsonl'), `${entry}\n`);
+    },
+  };
+}
+
+// Read on first use rather than at import: server.ts loads .env after its imports.
+function resolveTransport(): MailTransport {
+  const name = process.env.MAIL_TRANSPORT;
+
+  if (name === 'file') {
+    return createFileTransport(process.env.MAIL_FILE_DIR || join(process.cwd(), 'logs', 'mail'));
+  }
+
+  // The console transport prints reset and verification links to the logs
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(
+      `MAIL_TRANSPORT "${name ?? ''}" cannot be used in production - set MAIL_TRANSPORT or register a transport with setMailTransport`
+    );
+  }
+
+  if (name && name !== 'console') {
+    console.warn(`⚠️ Unknown MAIL_TRANSPORT "${name}" - falling back to console`);
+  }
+  return consoleTransport;
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * The active transport. Called once at startup so a production server
+ * without a real transport fails to boot instead of logging mail.
+ */
+export function getMailTransport() {
+  if (!transport) {
+    transport = resolveTransport();
+  }
+  return transport;
+}
+
+/**
+ * Replace the active transport, e.g. with an SMTP or provider-backed
+ * implementation registered at startup.
+ */
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage) {
+  const from = process.env.MAIL_FROM || 'Mubasharat <no-reply@mubasharat.com>';
+  await getMailTransport().send({ ...message, from });
+}
@@ -0,0 +1,270 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+/**
+ * A configured OpenID Connect provider. Endpoints left out are read from the
+ * issuer's /.well-known/openid-configuration on first use.
+ */
+export interface OidcProvider {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes?: string[];
+  authorizationEndpoint?: string;
+  tokenEndpoint?: string;
+  jwksUri?: string;
+}
+
+interface ProviderMetadata {
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  jwksUri: string;
+}
+
+export interface OidcIdentity {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+}
+
+const DEFAULT_SCOPES = ['openid', 'email', 'profile'];
+const JWKS_CACHE_MS = 60 * 60 * 1000;
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+export const MOCK_PROVIDER_ID = 'mock';
+export const MOCK_CLIENT_ID = 'mubasharat-mock-client';
+
+/**
+ * The mock provider signs in anyone as any email address, so it has to be
+ * switched on explicitly and is never available in production. Read lazily:
+ * .env is loaded after this module is imported.
+ */
+export function isOidcMockEnabled() {
+  return process.env.OIDC_MOCK_ENABLED === 'true' && process.env.NODE_ENV !== 'production';
+}
+
+function apiPublicUrl() {
+  return process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || 5000}`;
+}
+
+export function mockIssuer() {
+  return `${apiPublicUrl()}/api/oidc-mock`;
+}
+
+function loadProviders(): OidcProvider[] {
+  const providers: OidcProvider[] = [];
+
+  if (process.env.OIDC_PROVIDERS) {
+    try {
+      const parsed = JSON.parse(process.env.OIDC_PROVIDERS);
+      for (const entry of Array.isArray(parsed) ? parsed : []) {
+        if (entry?.id && entry?.issuer && entry?.clientId) {
+          providers.push({ name: entry.id, ...entry });
+        } else {
+          console.warn('[OIDC] Skipping provider without id, issuer or clientId');
+        }
+      }
+    } catch (error) {
+      console.error('[OIDC] OIDC_PROVIDERS is not valid JSON:', error);
+    }
+  }
+
+  if (isOidcMockEnabled() && !providers.some((provider) => provider.id === MOCK_PROVIDER_ID)) {
+    providers.push({
+      id: MOCK_PROVIDER_ID,
+      name: 'Mock provider',
+      issuer: mockIssuer(),
+      clientId: MOCK_CLIENT_ID,
+    });
+  }
+
+  return providers;
+}
+
+let providers: OidcProvider[] | null = null;
+const metadataCache = new Map<string, ProviderMetadata>();
+const jwksCache = new Map<string, { loadedAt: number; keys: Array<Record<string, unknown>> }>();
+
+function getProviders() {
+  if (!providers) {
+    providers = loadProviders();
+  }
+  return providers;
+}
+
+export function listOidcProviders() {
+  return getProviders().map((provider) => ({ id: provider.id, name: provider.name }));
+}
+
+export function getOidcProvider(id: string) {
+  return getProviders().find((provider) => provider.id === id) ?? null;
+}
+
+export function oidcRedirectUri(provider: OidcProvider) {
+  return `${apiPublicUrl()}/api/auth/oidc/${encodeURIComponent(provider.id)}/callback`;
+}
+
+async function getMetadata(provider: OidcProvider): Promise<ProviderMetadata> {
+  if (provider.authorizationEndpoint && provider.tokenEndpoint && provider.jwksUri) {
+    return {
+      authorizationEndpoint: provider.authorizationEndpoint,
+      tokenEndpoint: provider.tokenEndpoint,
+      jwksUri: provider.jwksUri,
+    };
+  }
+
+  const cached = metadataCache.get(provider.id);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(`${provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+  if (!response.ok) {
+    throw new Error(`Discovery failed for ${provider.id}: HTTP ${response.status}`);
+  }
+
+  const document = (await response.json()) as Record<string, string>;
+  const metadata = {
+    authorizationEndpoint: provider.authorizationEndpoint ?? document.authorization_endpoint,
+    tokenEndpoint: provider.tokenEndpoint ?? document.token_endpoint,
+    jwksUri: provider.jwksUri ?? document.jwks_uri,
+  };
+
+  if (!metadata.authorizationEndpoint || !metadata.tokenEndpoint || !metadata.jwksUri) {
+    throw new Error(`Discovery document for ${provider.id} is missing endpoints`);
+  }
+
+  metadataCache.set(provider.id, metadata);
+  return metadata;
+}
+
+export function generateCodeVerifier() {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+export function codeChallengeFor(verifier: string) {
+  return crypto.createHash('sha256').update(verifier).digest('base64url');
+}
+
+export async function buildAuthorizationUrl(
+  provider: OidcProvider,
+  params: { state: string; nonce: string; codeVerifier: string; loginHint?: string }
+) {
+  const metadata = await getMetadata(provider);
+  const url = new URL(metadata.authorizationEndpoint);
+
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', provider.clientId);
+  url.searchParams.set('redirect_uri', oidcRedirectUri(provider));
+  url.searchParams.set('scope', (provider.scopes ?? DEFAULT_SCOPES).join(' '));
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('nonce', params.nonce);
+  url.searchParams.set('code_challenge', codeChallengeFor(params.codeVerifier));
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (params.loginHint) {
+    url.searchParams.set('login_hint', params.loginHint);
+  }
+
+  return url.toString();
+}
+
+async function getSigningKey(
+  provider: OidcProvider,
+  kid: string | undefined,
+  forceReload = false
+): Promise<crypto.KeyObject | null> {
+  const metadata = await getMetadata(provider);
+  let cached = jwksCache.get(provider.id);
+
+  if (!cached || forceReload || Date.now() - cached.loadedAt > JWKS_CACHE_MS) {
+    const response = await fetch(metadata.jwksUri);
+    if (!response.ok) {
+      throw new Error(`Failed to load JWKS for ${provider.id}: HTTP ${response.status}`);
+    }
+    const body = (await response.json()) as { keys?: Array<Record<string, unknown>> };
+    cached = { loadedAt: Date.now(), keys: body.keys ?? [] };
+    jwksCache.set(provider.id, cached);
+  }
+
+  const jwk = cached.keys.find((key) => (kid ? key.kid === kid : key.use !== 'enc'));
+
+  if (!jwk) {
+    // Providers rotate keys; refetch once before giving up
+    return forceReload ? null : getSigningKey(provider, kid, true);
+  }
+
+  return crypto.createPublicKey({ key: jwk as crypto.JsonWebKey, format: 'jwk' });
+}
+
+/**
+ * Redeem an authorization code (with its PKCE verifier) and return the
+ * verified identity from the ID token.
+ */
+export async function exchangeOidcCode(
+  provider: OidcProvider,
+  params: { code: string; codeVerifier: string; nonce: string }
+): Promise<OidcIdentity> {
+  const metadata = await getMetadata(provider);
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code: params.code,
+    redirect_uri: oidcRedirectUri(provider),
+    client_id: provider.clientId,
+    code_verifier: params.codeVerifier,
+  });
+  if (provider.clientSecret) {
+    body.set('client_secret', provider.clientSecret);
+  }
+
+  const response = await fetch(metadata.tokenEndpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Token exchange failed for ${provider.id}: HTTP ${response.status}`);
+  }
+
+  const tokens = (await response.json()) as { id_token?: string };
+  if (!tokens.id_token) {
+    throw new Error(`Token response from ${provider.id} has no id_token`);
+  }
+
+  const decoded = jwt.decode(tokens.id_token, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new Error('Malformed id_token');
+  }
+
+  const key = await getSigningKey(provider, decoded.header.kid);
+  if (!key) {
+    throw new Error(`No signing key ${decoded.header.kid ?? ''} for ${provider.id}`);
+  }
+
+  const claims = jwt.verify(tokens.id_token, key, {
+    algorithms: ['RS256', 'ES256'],
+    audience: provider.clientId,
+    issuer: provider.issuer,
+    clockTolerance: CLOCK_TOLERANCE_SECONDS,
+  }) as jwt.JwtPayload;
+
+  if (claims.nonce !== params.nonce) {
+    throw new Error('id_token nonce mismatch');
+  }
+
+  if (!claims.sub) {
+    throw new Error('id_token has no subject');
+  }
+
+  return {
+    subject: String(claims.sub),
+    email: typeof claims.email === 'string' ? claims.email.trim().toLowerCase() : null,
+    // Some providers send "true" as a string
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+    name: typeof claims.name === 'string' ? claims.name : null,
+  };
+}
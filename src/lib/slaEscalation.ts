@@ -0,0 +1,139 @@
+import { Role } from '@prisma/client';
+import prisma from './prisma';
+import { autoAssignDream } from './assignment';
+import { sendMail } from './mailer';
+import { recordDreamStatusChange } from '../utils/dreamStatus';
+import { slaEscalationEmail } from '../utils/emails';
+import { ROLES, hasPermission } from '../utils/permissions';
+import { overdueDreamsWhere } from '../utils/sla';
+
+// Move overdue dreams away from their interpreter and through the assignment engine
+const REASSIGN_OVERDUE = process.env.SLA_REASSIGN_OVERDUE === 'true';
+const SWEEP_INTERVAL_SECONDS = Number(process.env.SLA_SWEEP_SECONDS || 300);
+const BATCH_SIZE = 200;
+
+async function loadEscalationRecipients() {
+  const roles: Role[] = [];
+  for (const role of ROLES) {
+    if (await hasPermission(role, 'dreams:assign')) {
+      roles.push(role);
+    }
+  }
+
+  return prisma.profile.findMany({
+    where: { role: { in: roles }, user: { suspendedAt: null } },
+    select: { email: true },
+  });
+}
+
+/**
+ * Escalate every overdue dream once: record an SlaEscalation, optionally
+ * reassign it, and email everyone who can assign dreams a summary.
+ */
+export async function escalateOverdueDreams(now = new Date()) {
+  const overdue = await prisma.dream.findMany({
+    where: { ...overdueDreamsWhere(now), escalatedAt: null },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      dueAt: true,
+      interpreterId: true,
+      interpreter: { select: { fullName: true } },
+    },
+    orderBy: { dueAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  const escalated: Parameters<typeof slaEscalationEmail>[1] = [];
+
+  for (const dream of overdue) {
+    const escalation = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.dream.updateMany({
+        where: { id: dream.id, escalatedAt: null },
+        data: { escalatedAt: now },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      if (REASSIGN_OVERDUE && dream.status === 'pending_interpretation' && dream.interpreterId) {
+        const { count: unassigned } = await tx.dream.updateMany({
+          where: { id: dream.id, status: 'pending_interpretation', interpreterId: dream.interpreterId },
+          data: { interpreterId: null, status: 'new', claimedAt: null, claimExpiresAt: null },
+        });
+
+        if (unassigned > 0) {
+          await recordDreamStatusChange(tx, {
+            dreamId: dream.id,
+            fromStatus: 'pending_interpretation',
+            toStatus: 'new',
+            changedById: null,
+            reason: 'Unassigned after missing the response deadline',
+          });
+        }
+      }
+
+      return tx.slaEscalation.create({
+        data: { dreamId: dream.id, interpreterId: dream.interpreterId, dueAt: dream.dueAt! },
+      });
+    });
+
+    if (!escalation) continue;
+
+    let reassignedToId: string | null = null;
+
+    if (REASSIGN_OVERDUE) {
+      const result = await autoAssignDream(dream.id, {
+        excludeIds: dream.interpreterId ? [dream.interpreterId] : [],
+        reason: 'Reassigned after missing the response deadline',
+      });
+
+      if (result.status === 'assigned') {
+        reassignedToId = result.interpreterId;
+        await prisma.slaEscalation.update({
+          where: { id: escalation.id },
+          data: { reassignedToId },
+        });
+      }
+    }
+
+    escalated.push({
+      id: dream.id,
+      title: dream.title,
+      dueAt: dream.dueAt!,
+      interpreterName: dream.interpreter?.fullName ?? null,
+      reassigned: Boolean(reassignedToId),
+    });
+  }
+
+  if (escalated.length > 0) {
+    const recipients = await loadEscalationRecipients();
+    // The dreams are already marked as escalated, so one bad address mustn't stop the rest
+    for (const recipient of recipients) {
+      try {
+        await sendMail(slaEscalationEmail(recipient.email, escalated));
+      } catch (error) {
+        console.error(`[SLA] Escalation email to ${recipient.email} error:`, error);
+      }
+    }
+  }
+
+  return escalated.length;
+}
+
+export function startSlaEscalationJob() {
+  const timer = setInterval(() => {
+    escalateOverdueDreams()
+      .then((escalated) => {
+        if (escalated > 0) {
+          console.log(`[SLA] Escalated ${escalated} overdue dream(s)`);
+        }
+      })
+      .catch((error) => console.error('[SLA] Escalation sweep error:', error));
+  }, SWEEP_INTERVAL_SECONDS * 1000);
+
+  timer.unref();
+  return timer;
+}
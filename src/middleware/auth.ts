@@ -1,56 +1,296 @@
 import { Request, Response, NextFunction } from 'express';
-import { verifyToken } from '../utils/auth';
+import prisma from '../lib/prisma';
+import { AuthUser, verifyToken } from '../utils/auth';
+import { getRolePermissions, hasPermission, Permission } from '../utils/permissions';
+import { ApiKeyScope, looksLikeApiKey, parseApiKey, parseScopes } from '../utils/apiKeys';
 
 const SESSION_COOKIE_NAME = 'auth_token';
+const TWO_FACTOR_REQUIRED_ROLES = new Set(['admin', 'super_admin']);
+const API_KEY_LAST_USED_INTERVAL_MS = 60 * 1000;
 
-export function requireAuth(req: Request, res: Response, next: NextFunction) {
+function extractToken(req: Request): string | undefined {
   const authHeader = req.headers.authorization;
   const cookieToken = req.cookies?.[SESSION_COOKIE_NAME];
 
-  let token: string | undefined;
-
   if (authHeader && authHeader.startsWith('Bearer ')) {
-    token = authHeader.replace('Bearer ', '').trim();
-  } else if (cookieToken) {
-    token = cookieToken;
+    return authHeader.replace('Bearer ', '').trim();
   }
 
-  if (!token) {
-    return res.status(401).json({ error: 'Authentication required' });
+  return cookieToken || undefined;
+}
+
+async function authenticateApiKey(req: Request, key: string): Promise<AuthUser | null> {
+  const parsed = parseApiKey(key);
+
+  if (!parsed) {
+    return null;
+  }
+
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: parsed.keyHash },
+    include: {
+      profile: {
+        select: {
+          role: true,
+          user: { select: { email: true, suspendedAt: true, totpEnabledAt: true } },
+        },
+      },
+    },
+  });
+
+  const now = new Date();
+
+  if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+    return null;
+  }
+
+  if (apiKey.profile.user.suspendedAt) {
+    return null;
+  }
+
+  // Record usage at most once a minute to keep busy integrations from writing on every call
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > API_KEY_LAST_USED_INTERVAL_MS) {
+    prisma.apiKey
+      .update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: now, lastUsedIp: req.ip ?? null },
+      })
+      .catch((error) => {
+        console.error('[Auth] API key usage update error:', error);
+      });
+  }
+
+  return {
+    userId: apiKey.profileId,
+    email: apiKey.profile.user.email,
+    role: apiKey.profile.role,
+    twoFactorEnabled: Boolean(apiKey.profile.user.totpEnabledAt),
+    apiKey: { id: apiKey.id, scopes: parseScopes(apiKey.scopes) },
+  };
+}
+
+async function authenticate(req: Request, token: string): Promise<AuthUser | null> {
+  if (looksLikeApiKey(token)) {
+    return authenticateApiKey(req, token);
   }
 
   const payload = verifyToken(token);
 
-  if (!payload) {
-    return res.status(401).json({ error: 'Invalid or expired token' });
+  // Every access token must belong to a live server-side session
+  if (!payload || !payload.sessionId) {
+    return null;
   }
 
-  req.user = payload;
+  const session = await prisma.session.findUnique({
+    where: { id: payload.sessionId },
+    select: {
+      userId: true,
+      revokedAt: true,
+      expiresAt: true,
+      user: { select: { tokenVersion: true, suspendedAt: true, totpEnabledAt: true } },
+      impersonator: {
+        select: { id: true, email: true, suspendedAt: true, profile: { select: { role: true } } },
+      },
+    },
+  });
 
-  return next();
+  if (!session || session.userId !== payload.userId || session.revokedAt || session.expiresAt <= new Date()) {
+    return null;
+  }
+
+  // Role changes, suspensions and password changes bump the version
+  if (session.user.suspendedAt || payload.tokenVersion !== session.user.tokenVersion) {
+    return null;
+  }
+
+  const user: AuthUser = { ...payload, twoFactorEnabled: Boolean(session.user.totpEnabledAt) };
+
+  if (session.impersonator) {
+    // The impersonating admin must still be allowed to impersonate
+    const { impersonator } = session;
+    const allowed = !impersonator.suspendedAt &&
+      (await hasPermission(impersonator.profile?.role, 'users:impersonate'));
+
+    if (!allowed) {
+      return null;
+    }
+
+    user.impersonator = { userId: impersonator.id, email: impersonator.email };
+  }
+
+  return user;
 }
 
-export function optionalAuth(req: Request, _res: Response, next: NextFunction) {
-  const authHeader = req.headers.authorization;
-  const cookieToken = req.cookies?.[SESSION_COOKIE_NAME];
+function apiKeyAllowed(req: Request, user: AuthUser) {
+  return Boolean(req.apiKeyScope && user.apiKey?.scopes.includes(req.apiKeyScope));
+}
 
-  let token: string | undefined;
+/**
+ * Let requests authenticated with an API key holding this scope through the
+ * following requireAuth/optionalAuth. Routes without it reject API keys.
+ */
+export function allowApiKey(scope: ApiKeyScope) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    req.apiKeyScope = scope;
+    next();
+  };
+}
 
-  if (authHeader && authHeader.startsWith('Bearer ')) {
-    token = authHeader.replace('Bearer ', '').trim();
-  } else if (cookieToken) {
-    token = cookieToken;
+/**
+ * Let admin and super_admin accounts that haven't enrolled in two-factor
+ * authentication through the following requireAuth/optionalAuth, so they can
+ * sign out, see their account and enroll. Every other route rejects them.
+ */
+export function allowWithoutTwoFactor(req: Request, _res: Response, next: NextFunction) {
+  req.twoFactorExempt = true;
+  next();
+}
+
+// Read per request: .env is loaded after this module is imported
+function isMissingTwoFactor(req: Request, user: AuthUser) {
+  return (
+    process.env.REQUIRE_ADMIN_2FA !== 'false' &&
+    TWO_FACTOR_REQUIRED_ROLES.has(user.role) &&
+    !user.twoFactorEnabled &&
+    !req.twoFactorExempt
+  );
+}
+
+// Every request made while impersonating is written to the admin log once the response is sent
+function auditImpersonatedRequest(req: Request, res: Response) {
+  const user = req.user;
+
+  if (!user?.impersonator) {
+    return;
+  }
+
+  const impersonatorId = user.impersonator.userId;
+
+  res.on('finish', () => {
+    prisma.adminLog
+      .create({
+        data: {
+          adminId: impersonatorId,
+          action: 'impersonated_request',
+          targetType: 'user',
+          targetId: user.userId,
+          details: {
+            method: req.method,
+            path: req.originalUrl,
+            statusCode: res.statusCode,
+            sessionId: user.sessionId ?? null,
+          },
+        },
+      })
+      .catch((error) => {
+        console.error('[Auth] Impersonation audit error:', error);
+      });
+  });
+}
+
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const token = extractToken(req);
+
+  if (!token) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  try {
+    const payload = await authenticate(req, token);
+
+    if (!payload) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+
+    if (payload.apiKey && !apiKeyAllowed(req, payload)) {
+      return res.status(403).json({
+        error: 'This API key is not allowed to access this endpoint',
+        code: 'API_KEY_SCOPE_DENIED',
+        required: req.apiKeyScope ?? null,
+      });
+    }
+
+    // Applies to every route, not just /api/admin: admin roles can change plans,
+    // the symbol dictionary and any dream through their permissions
+    if (isMissingTwoFactor(req, payload)) {
+      return res.status(403).json({
+        error: 'Two-factor authentication must be enabled to use admin accounts',
+        code: 'TWO_FACTOR_REQUIRED',
+      });
+    }
+
+    req.user = payload;
+    auditImpersonatedRequest(req, res);
+
+    return next();
+  } catch (error) {
+    console.error('[Auth] Authentication error:', error);
+    return res.status(500).json({ error: 'Failed to authenticate request' });
   }
+}
+
+export async function optionalAuth(req: Request, res: Response, next: NextFunction) {
+  const token = extractToken(req);
 
   if (token) {
-    const payload = verifyToken(token);
-    if (payload) {
-      req.user = payload;
+    try {
+      const payload = await authenticate(req, token);
+      // Keys without the route's scope, and admins without 2FA, are ignored as if
+      // no credentials were sent
+      if (payload && (!payload.apiKey || apiKeyAllowed(req, payload)) && !isMissingTwoFactor(req, payload)) {
+        req.user = payload;
+        auditImpersonatedRequest(req, res);
+      }
+    } catch (error) {
+      console.error('[Auth] Optional authentication error:', error);
     }
   }
 
   next();
 }
 
+/**
+ * Allow the request only if the caller's role holds every listed permission.
+ * Must run after requireAuth.
+ */
+export function requirePermission(...permissions: Permission[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
 
+    try {
+      const granted = await getRolePermissions(req.user.role);
+      const missing = permissions.filter((permission) => !granted.has(permission));
 
+      if (missing.length > 0) {
+        return res.status(403).json({
+          error: 'Forbidden - Insufficient permissions',
+          code: 'PERMISSION_DENIED',
+          required: missing,
+        });
+      }
+
+      return next();
+    } catch (error) {
+      console.error('[Auth] Permission check error:', error);
+      return res.status(500).json({ error: 'Failed to check permissions' });
+    }
+  };
+}
+
+/**
+ * Reject actions that must only ever be taken by the account owner, such as
+ * payments, password changes and account deletion, while impersonating.
+ * Must run after requireAuth.
+ */
+export function forbidImpersonation(req: Request, res: Response, next: NextFunction) {
+  if (req.user?.impersonator) {
+    return res.status(403).json({
+      error: 'This action is not available while impersonating a user',
+      code: 'IMPERSONATION_FORBIDDEN',
+    });
+  }
+
+  return next();
+}
@@ -1,16 +1,16 @@
 import { Router } from 'express';
 import prisma from '../lib/prisma';
-import { requireAuth } from '../middleware/auth';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { hasPermission } from '../utils/permissions';
 
 const router = Router();
 
-// Get all pages (super admin only)
-router.get('/', requireAuth, async (req, res) => {
-    try {
-        if (req.user!.role !== 'super_admin') {
-            return res.status(403).json({ error: 'Forbidden - Super admin access required' });
-        }
+// Every admin route requires a session (requireAuth also enforces admin 2FA)
+router.use(requireAuth);
 
+// Get all pages
+router.get('/', requirePermission('pages:read'), async (req, res) => {
+    try {
         const pages = await prisma.pageContent.findMany({
             select: {
                 id: true,
@@ -29,13 +29,9 @@ router.get('/', requireAuth, async (req, res) => {
     }
 });
 
-// Get specific page (super admin only)
-router.get('/:pageKey', requireAuth, async (req, res) => {
+// Get specific page
+router.get('/:pageKey', requirePermission('pages:read'), async (req, res) => {
     try {
-        if (req.user!.role !== 'super_admin') {
-            return res.status(403).json({ error: 'Forbidden - Super admin access required' });
-        }
-
         const { pageKey } = req.params;
 
         const page = await prisma.pageContent.findUnique({
@@ -53,16 +49,20 @@ router.get('/:pageKey', requireAuth, async (req, res) => {
     }
 });
 
-// Update page content (super admin only)
-router.patch('/:pageKey', requireAuth, async (req, res) => {
+// Update page content (changing isPublished also needs pages:publish)
+router.patch('/:pageKey', requirePermission('pages:write'), async (req, res) => {
     try {
-        if (req.user!.role !== 'super_admin') {
-            return res.status(403).json({ error: 'Forbidden - Super admin access required' });
-        }
-
         const { pageKey } = req.params;
         const { title, content, metadata, isPublished } = req.body;
 
+        if (isPublished !== undefined && !(await hasPermission(req.user!.role, 'pages:publish'))) {
+            return res.status(403).json({
+                error: 'Forbidden - Insufficient permissions',
+                code: 'PERMISSION_DENIED',
+                required: ['pages:publish'],
+            });
+        }
+
         const updateData: any = {};
         if (title !== undefined) updateData.title = title;
         if (content !== undefined) updateData.content = content;
@@ -82,13 +82,9 @@ router.patch('/:pageKey', requireAuth, async (req, res) => {
     }
 });
 
-// Create or seed default pages (super admin only)
-router.post('/seed', requireAuth, async (req, res) => {
+// Create or seed default pages
+router.post('/seed', requirePermission('pages:write'), async (req, res) => {
     try {
-        if (req.user!.role !== 'super_admin') {
-            return res.status(403).json({ error: 'Forbidden - Super admin access required' });
-        }
-
         const defaultPages = [
             {
                 pageKey: 'about',
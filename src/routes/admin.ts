@@ -1,34 +1,55 @@
 import { Router } from 'express';
 import prisma from '../lib/prisma';
-import { requireAuth } from '../middleware/auth';
+import { requireAuth, requirePermission } from '../middleware/auth';
 import { Prisma } from '@prisma/client';
+import { bumpTokenVersion, revokeSession, revokeUserSessions, startImpersonationSession } from '../utils/session';
+import { clearLoginFailures, listLoginLockouts } from '../lib/loginThrottle';
+import { recordSecurityEvent } from '../utils/securityEvents';
+import { formatApiKey } from '../utils/apiKeys';
+import { syncDreamSearchDocument } from '../utils/dreamSearch';
+import { summarizeSla } from '../utils/sla';
+import { summarizeReviews } from '../utils/review';
+import { DREAM_CATEGORIES, formatPublication, isDreamCategory } from '../utils/publishing';
+import { buildPage, parsePageParams } from '../utils/pagination';
+import { recalculateInterpreterRating } from '../utils/ratings';
+import { getUsageSummary } from '../utils/quota';
+import { listUsageEvents, reconcileUsage } from '../utils/usageLedger';
+import {
+  AUTO_ASSIGN_STRATEGY,
+  autoAssignDream,
+  listAssignmentStrategies,
+  loadInterpreterWorkloads,
+  previewAssignment,
+} from '../lib/assignment';
+import {
+  PERMISSIONS,
+  ROLES,
+  getDefaultRolePermissions,
+  getRolePermissions,
+  hasPermission,
+  invalidatePermissionCache,
+  isPermission,
+  isProtectedGrant,
+  isRole,
+} from '../utils/permissions';
 
 const router = Router();
 
-async function ensureRole(userId: string, roles: Array<'admin' | 'super_admin'>) {
-  const profile = await prisma.profile.findUnique({
-    where: { id: userId },
-    select: { role: true },
-  });
+// Every admin route requires a session (requireAuth also enforces admin 2FA)
+router.use(requireAuth);
 
-  if (!profile) {
-    return false;
-  }
-
-  return roles.includes(profile.role as 'admin' | 'super_admin');
-}
-
-router.get('/stats', requireAuth, async (req, res) => {
+router.get('/stats', requirePermission('admin:stats'), async (req, res) => {
   try {
-    const userId = req.user!.userId;
-
-    const isSuperAdmin = await ensureRole(userId, ['super_admin']);
-
-    if (!isSuperAdmin) {
-      return res.status(403).json({ error: 'Forbidden - Admin access required' });
-    }
-
-    const [totalUsers, totalRequests, completedRequests, totalPlans, totalRevenueAggregate] = await Promise.all([
+    const [
+      totalUsers,
+      totalRequests,
+      completedRequests,
+      totalPlans,
+      totalRevenueAggregate,
+      totalSymbolTags,
+      taggedDreams,
+      topSymbolCounts,
+    ] = await Promise.all([
       prisma.profile.count(),
       prisma.request.count(),
       prisma.request.count({ where: { status: 'completed' } }),
@@ -37,8 +58,22 @@ router.get('/stats', requireAuth, async (req, res) => {
         _sum: { amount: true },
         where: { status: 'succeeded' },
       }),
+      prisma.dreamSymbolTag.count(),
+      prisma.dream.count({ where: { symbolTags: { some: {} } } }),
+      prisma.dreamSymbolTag.groupBy({
+        by: ['symbolId'],
+        _count: { _all: true },
+        orderBy: { _count: { symbolId: 'desc' } },
+        take: 10,
+      }),
     ]);
 
+    const topSymbolDetails = await prisma.dreamSymbol.findMany({
+      where: { id: { in: topSymbolCounts.map((row) => row.symbolId) } },
+      select: { id: true, slug: true, name: true },
+    });
+    const symbolsById = new Map(topSymbolDetails.map((symbol) => [symbol.id, symbol]));
+
     const totalRevenue = totalRevenueAggregate._sum.amount
       ? Number(totalRevenueAggregate._sum.amount)
       : 0;
@@ -49,6 +84,16 @@ router.get('/stats', requireAuth, async (req, res) => {
       completedRequests,
       totalPlans,
       totalRevenue,
+      symbols: {
+        totalTags: totalSymbolTags,
+        taggedDreams,
+        // Most frequently tagged symbols across all dreams
+        topSymbols: topSymbolCounts.map((row) => ({
+          ...symbolsById.get(row.symbolId),
+          id: row.symbolId,
+          dreamCount: row._count._all,
+        })),
+      },
     };
 
     return res.json({ stats });
@@ -58,16 +103,8 @@ router.get('/stats', requireAuth, async (req, res) => {
   }
 });
 
-router.get('/users', requireAuth, async (req, res) => {
+router.get('/users', requirePermission('users:read'), async (req, res) => {
   try {
-    const userId = req.user!.userId;
-
-    const isSuperAdmin = await ensureRole(userId, ['super_admin']);
-
-    if (!isSuperAdmin) {
-      return res.status(403).json({ error: 'Forbidden - Admin access required' });
-    }
-
     const users = await prisma.profile.findMany({
       orderBy: { createdAt: 'desc' },
       select: {
@@ -79,11 +116,13 @@ router.get('/users', requireAuth, async (req, res) => {
         totalInterpretations: true,
         rating: true,
         createdAt: true,
+        user: { select: { suspendedAt: true } },
       },
     });
 
-    const formattedUsers = users.map((user) => ({
+    const formattedUsers = users.map(({ user: account, ...user }) => ({
       ...user,
+      isSuspended: Boolean(account.suspendedAt),
       rating: user.rating.toString(),
       isAdmin: user.role === 'admin' || user.role === 'super_admin',
       isSuperAdmin: user.role === 'super_admin',
@@ -96,7 +135,7 @@ router.get('/users', requireAuth, async (req, res) => {
   }
 });
 
-router.post('/make-super-admin', requireAuth, async (req, res) => {
+router.post('/make-super-admin', requirePermission('users:promote'), async (req, res) => {
   try {
     const requesterId = req.user!.userId;
     const { userId } = req.body ?? {};
@@ -105,17 +144,26 @@ router.post('/make-super-admin', requireAuth, async (req, res) => {
       return res.status(400).json({ error: 'userId is required' });
     }
 
-    const isElevated = await ensureRole(requesterId, ['super_admin']);
+    const updatedProfile = await prisma.$transaction(async (tx) => {
+      const promoted = await tx.profile.update({
+        where: { id: userId },
+        data: {
+          role: 'super_admin',
+        },
+      });
 
-    if (!isElevated) {
-      return res.status(403).json({ error: 'Forbidden - Super admin access required' });
-    }
+      await bumpTokenVersion(userId, tx);
 
-    const updatedProfile = await prisma.profile.update({
-      where: { id: userId },
-      data: {
-        role: 'super_admin',
-      },
+      await tx.adminLog.create({
+        data: {
+          adminId: requesterId,
+          action: 'make_super_admin',
+          targetType: 'user',
+          targetId: userId,
+        },
+      });
+
+      return promoted;
     });
 
     return res.json({ profile: updatedProfile });
@@ -125,17 +173,21 @@ router.post('/make-super-admin', requireAuth, async (req, res) => {
   }
 });
 
-router.patch('/users/:id', requireAuth, async (req, res) => {
+router.patch('/users/:id', requirePermission('users:write'), async (req, res) => {
   try {
     const requesterId = req.user!.userId;
     const targetId = req.params.id;
-    const { fullName, role, isAvailable, totalInterpretations, rating } = req.body ?? {};
-
-    const isSuperAdmin = await ensureRole(requesterId, ['super_admin']);
-
-    if (!isSuperAdmin) {
-      return res.status(403).json({ error: 'Forbidden - Super admin access required' });
-    }
+    const {
+      fullName,
+      role,
+      isAvailable,
+      maxOpenDreams,
+      requiresReview,
+      isReviewer,
+      totalInterpretations,
+      rating,
+      isSuspended,
+    } = req.body ?? {};
 
     const existingProfile = await prisma.profile.findUnique({
       where: { id: targetId },
@@ -159,6 +211,14 @@ router.patch('/users/:id', requireAuth, async (req, res) => {
       if (!allowedRoles.includes(role)) {
         return res.status(400).json({ error: 'Invalid role value' });
       }
+      const isElevation = role === 'admin' || role === 'super_admin';
+      if (isElevation && !(await hasPermission(req.user!.role, 'users:promote'))) {
+        return res.status(403).json({
+          error: 'Forbidden - Insufficient permissions',
+          code: 'PERMISSION_DENIED',
+          required: ['users:promote'],
+        });
+      }
       updateData.role = role;
     }
 
@@ -169,48 +229,101 @@ router.patch('/users/:id', requireAuth, async (req, res) => {
       updateData.isAvailable = isAvailable;
     }
 
-    if (totalInterpretations !== undefined) {
-      const parsedTotal = Number(totalInterpretations);
-      if (Number.isNaN(parsedTotal) || parsedTotal < 0) {
-        return res.status(400).json({ error: 'totalInterpretations must be a non-negative number' });
+    if (maxOpenDreams !== undefined) {
+      if (maxOpenDreams !== null && (!Number.isInteger(maxOpenDreams) || maxOpenDreams < 0)) {
+        return res.status(400).json({ error: 'maxOpenDreams must be a non-negative integer or null' });
       }
-      updateData.totalInterpretations = Math.floor(parsedTotal);
+      updateData.maxOpenDreams = maxOpenDreams;
     }
 
-    if (rating !== undefined) {
-      const parsedRating = Number(rating);
-      if (Number.isNaN(parsedRating) || parsedRating < 0) {
-        return res.status(400).json({ error: 'rating must be a positive number' });
+    if (requiresReview !== undefined) {
+      if (typeof requiresReview !== 'boolean') {
+        return res.status(400).json({ error: 'requiresReview must be boolean' });
       }
-      updateData.rating = new Prisma.Decimal(parsedRating);
+      updateData.requiresReview = requiresReview;
     }
 
-    if (Object.keys(updateData).length === 0) {
+    if (isReviewer !== undefined) {
+      if (typeof isReviewer !== 'boolean') {
+        return res.status(400).json({ error: 'isReviewer must be boolean' });
+      }
+      updateData.isReviewer = isReviewer;
+    }
+
+    // Both are derived from ratings and interpreted dreams, so a manual value would be overwritten
+    if (totalInterpretations !== undefined || rating !== undefined) {
+      return res.status(400).json({
+        error: 'rating and totalInterpretations are computed and cannot be set',
+        code: 'DERIVED_FIELD',
+      });
+    }
+
+    if (isSuspended !== undefined) {
+      if (typeof isSuspended !== 'boolean') {
+        return res.status(400).json({ error: 'isSuspended must be boolean' });
+      }
+      if (isSuspended && targetId === requesterId) {
+        return res.status(400).json({ error: 'You cannot suspend your own account' });
+      }
+    }
+
+    if (Object.keys(updateData).length === 0 && isSuspended === undefined) {
       return res.status(400).json({ error: 'No valid updates provided' });
     }
 
-    const updatedProfile = await prisma.profile.update({
-      where: { id: targetId },
-      data: updateData,
-      select: {
-        id: true,
-        email: true,
-        fullName: true,
-        role: true,
-        isAvailable: true,
-        totalInterpretations: true,
-        rating: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+    const roleChanged = updateData.role !== undefined && updateData.role !== existingProfile.role;
+
+    const updatedProfile = await prisma.$transaction(async (tx) => {
+      const profile = await tx.profile.update({
+        where: { id: targetId },
+        data: updateData,
+        select: {
+          id: true,
+          email: true,
+          fullName: true,
+          role: true,
+          isAvailable: true,
+          maxOpenDreams: true,
+          requiresReview: true,
+          isReviewer: true,
+          totalInterpretations: true,
+          rating: true,
+          createdAt: true,
+          updatedAt: true,
+          user: { select: { suspendedAt: true } },
+        },
+      });
+
+      if (isSuspended !== undefined && isSuspended !== Boolean(profile.user.suspendedAt)) {
+        const updatedUser = await tx.user.update({
+          where: { id: targetId },
+          data: { suspendedAt: isSuspended ? new Date() : null },
+          select: { suspendedAt: true },
+        });
+        profile.user = updatedUser;
+
+        if (isSuspended) {
+          await revokeUserSessions(targetId, 'account_suspended', { db: tx });
+        }
+      }
+
+      // Tokens carry the role, so they must not outlive a role change or suspension
+      if (roleChanged || isSuspended === true) {
+        await bumpTokenVersion(targetId, tx);
+      }
+
+      return profile;
     });
 
+    const { user: targetUser, ...profileFields } = updatedProfile;
+
     return res.json({
       profile: {
-        ...updatedProfile,
-        rating: updatedProfile.rating.toString(),
-        isAdmin: updatedProfile.role === 'admin' || updatedProfile.role === 'super_admin',
-        isSuperAdmin: updatedProfile.role === 'super_admin',
+        ...profileFields,
+        isSuspended: Boolean(targetUser.suspendedAt),
+        rating: profileFields.rating.toString(),
+        isAdmin: profileFields.role === 'admin' || profileFields.role === 'super_admin',
+        isSuperAdmin: profileFields.role === 'super_admin',
       },
     });
   } catch (error) {
@@ -219,16 +332,110 @@ router.patch('/users/:id', requireAuth, async (req, res) => {
   }
 });
 
-router.get('/interpreters', requireAuth, async (req, res) => {
+// Usage ledger for one user, with each subscription's counters checked against it
+router.get('/users/:id/usage', requirePermission('users:read'), async (req, res) => {
+  try {
+    const targetId = req.params.id;
+    const query = req.query as Record<string, unknown>;
+
+    const page = parsePageParams(query, { defaultLimit: 50 });
+    if ('error' in page) {
+      return res.status(400).json({ error: page.error });
+    }
+
+    const profile = await prisma.profile.findUnique({ where: { id: targetId }, select: { id: true } });
+
+    if (!profile) {
+      return res.status(404).json({ error: 'Profile not found' });
+    }
+
+    const userPlanId = typeof query.userPlanId === 'string' && query.userPlanId ? query.userPlanId : undefined;
+
+    const subscriptions = await prisma.userPlan.findMany({
+      where: { userId: targetId },
+      include: { plan: true },
+      orderBy: { startedAt: 'desc' },
+    });
+
+    const summaries = await Promise.all(
+      subscriptions.map(async (subscription) => ({
+        id: subscription.id,
+        plan: { id: subscription.plan.id, name: subscription.plan.name },
+        isActive: subscription.isActive,
+        periodStartedAt: subscription.startedAt.toISOString(),
+        expiresAt: subscription.expiresAt?.toISOString() ?? null,
+        usage: getUsageSummary(subscription),
+        reconciliation: await reconcileUsage(subscription.id),
+      }))
+    );
+
+    const { events, nextCursor } = await listUsageEvents(
+      { userId: targetId, ...(userPlanId && { userPlanId }) },
+      page
+    );
+
+    return res.json({ subscriptions: summaries, events, nextCursor });
+  } catch (error) {
+    console.error('[Admin] Usage history error:', error);
+    return res.status(500).json({ error: 'Failed to fetch usage history' });
+  }
+});
+
+// Reset a subscription's counters to what its ledger says for the current period
+router.post('/users/:id/usage/reconcile', requirePermission('users:write'), async (req, res) => {
   try {
     const requesterId = req.user!.userId;
+    const { userPlanId } = req.body ?? {};
+
+    if (typeof userPlanId !== 'string' || !userPlanId) {
+      return res.status(400).json({ error: 'userPlanId is required' });
+    }
 
-    const hasAccess = await ensureRole(requesterId, ['admin', 'super_admin']);
+    const subscription = await prisma.userPlan.findFirst({
+      where: { id: userPlanId, userId: req.params.id },
+      select: { id: true },
+    });
+
+    if (!subscription) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    const result = await reconcileUsage(subscription.id, { apply: true });
+
+    if (result.ledgerMissing) {
+      return res.status(409).json({
+        error: 'This subscription has no usage ledger yet; run backfill-usage-opening-balance.ts before reconciling it',
+        code: 'USAGE_LEDGER_MISSING',
+        reconciliation: result,
+      });
+    }
 
-    if (!hasAccess) {
-      return res.status(403).json({ error: 'Forbidden - Admin access required' });
+    if (result.applied) {
+      await prisma.adminLog.create({
+        data: {
+          adminId: requesterId,
+          action: 'reconcile_usage',
+          targetType: 'user',
+          targetId: req.params.id,
+          details: {
+            userPlanId: subscription.id,
+            corrections: result.kinds
+              .filter((entry) => entry.drift !== 0)
+              .map(({ kind, counter, ledger }) => ({ kind, from: counter, to: ledger })),
+          },
+        },
+      });
     }
 
+    return res.json(result);
+  } catch (error) {
+    console.error('[Admin] Usage reconcile error:', error);
+    return res.status(500).json({ error: 'Failed to reconcile usage' });
+  }
+});
+
+router.get('/interpreters', requirePermission('interpreters:read'), async (req, res) => {
+  try {
     const interpreters = await prisma.profile.findMany({
       where: { role: 'interpreter' },
       orderBy: [
@@ -242,13 +449,24 @@ router.get('/interpreters', requireAuth, async (req, res) => {
         isAvailable: true,
         totalInterpretations: true,
         rating: true,
+        ratingCount: true,
+        requiresReview: true,
+        isReviewer: true,
       },
     });
 
-    const formatted = interpreters.map((interpreter) => ({
-      ...interpreter,
-      rating: interpreter.rating.toString(),
-    }));
+    const workloads = new Map((await loadInterpreterWorkloads()).map((workload) => [workload.id, workload]));
+
+    const formatted = interpreters.map((interpreter) => {
+      const workload = workloads.get(interpreter.id);
+      return {
+        ...interpreter,
+        rating: interpreter.rating.toString(),
+        openDreams: workload?.openDreams ?? 0,
+        capacity: workload?.capacity ?? null,
+        acceptingAssignments: workload?.eligible ?? false,
+      };
+    });
 
     return res.json({ interpreters: formatted });
   } catch (error) {
@@ -257,7 +475,881 @@ router.get('/interpreters', requireAuth, async (req, res) => {
   }
 });
 
-export default router;
+// SLA compliance per interpreter and per plan for dreams created in [from, to]
+// (default: the last 30 days). Only dreams submitted on a plan with slaHours count.
+router.get('/reports/sla', requirePermission('admin:stats'), async (req, res) => {
+  try {
+    const now = new Date();
+    const from =
+      typeof req.query.from === 'string'
+        ? new Date(req.query.from)
+        : new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+    const to = typeof req.query.to === 'string' ? new Date(req.query.to) : now;
+
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      return res.status(400).json({ error: 'from and to must be valid dates' });
+    }
+
+    const [dreams, escalations] = await Promise.all([
+      prisma.dream.findMany({
+        where: { dueAt: { not: null }, createdAt: { gte: from, lte: to } },
+        select: {
+          status: true,
+          createdAt: true,
+          dueAt: true,
+          interpretedAt: true,
+          interpreter: { select: { id: true, fullName: true } },
+          userPlan: { select: { plan: { select: { id: true, name: true } } } },
+        },
+      }),
+      prisma.slaEscalation.groupBy({
+        by: ['interpreterId'],
+        where: { dream: { createdAt: { gte: from, lte: to } } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const escalationsByInterpreter = new Map(escalations.map((row) => [row.interpreterId, row._count._all]));
+
+    type ReportDream = (typeof dreams)[number];
+    const byInterpreter = new Map<string, { interpreter: ReportDream['interpreter']; dreams: ReportDream[] }>();
+    const byPlan = new Map<string, { plan: { id: string; name: string } | null; dreams: ReportDream[] }>();
+
+    for (const dream of dreams) {
+      const interpreterKey = dream.interpreter?.id ?? 'unassigned';
+      if (!byInterpreter.has(interpreterKey)) {
+        byInterpreter.set(interpreterKey, { interpreter: dream.interpreter, dreams: [] });
+      }
+      byInterpreter.get(interpreterKey)!.dreams.push(dream);
+
+      const plan = dream.userPlan?.plan ?? null;
+      const planKey = plan?.id ?? 'none';
+      if (!byPlan.has(planKey)) {
+        byPlan.set(planKey, { plan, dreams: [] });
+      }
+      byPlan.get(planKey)!.dreams.push(dream);
+    }
+
+    return res.json({
+      from: from.toISOString(),
+      to: to.toISOString(),
+      overall: summarizeSla(dreams, now),
+      byInterpreter: Array.from(byInterpreter.values()).map((group) => ({
+        interpreter: group.interpreter,
+        ...summarizeSla(group.dreams, now),
+        escalations: escalationsByInterpreter.get(group.interpreter?.id ?? null) ?? 0,
+      })),
+      byPlan: Array.from(byPlan.values()).map((group) => ({
+        plan: group.plan,
+        ...summarizeSla(group.dreams, now),
+      })),
+    });
+  } catch (error) {
+    console.error('[Admin] SLA report error:', error);
+    return res.status(500).json({ error: 'Failed to build SLA report' });
+  }
+});
+
+// Review outcomes per interpreter for decisions made in [from, to] (default:
+// the last 30 days), plus how many of their dreams are waiting for review now.
+router.get('/reports/reviews', requirePermission('admin:stats'), async (req, res) => {
+  try {
+    const now = new Date();
+    const from =
+      typeof req.query.from === 'string'
+        ? new Date(req.query.from)
+        : new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+    const to = typeof req.query.to === 'string' ? new Date(req.query.to) : now;
+
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      return res.status(400).json({ error: 'from and to must be valid dates' });
+    }
+
+    const [reviews, pending] = await Promise.all([
+      prisma.interpretationReview.findMany({
+        where: { createdAt: { gte: from, lte: to } },
+        select: {
+          decision: true,
+          submittedAt: true,
+          createdAt: true,
+          interpreter: { select: { id: true, fullName: true, requiresReview: true } },
+        },
+      }),
+      prisma.dream.groupBy({
+        by: ['interpreterId'],
+        where: { status: 'pending_review' },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const pendingByInterpreter = new Map(pending.map((row) => [row.interpreterId, row._count._all]));
+
+    type ReportReview = (typeof reviews)[number];
+    const byInterpreter = new Map<
+      string,
+      { interpreter: NonNullable<ReportReview['interpreter']>; reviews: ReportReview[] }
+    >();
+
+    for (const review of reviews) {
+      // Reviews of deleted interpreters only count towards the overall figures
+      if (!review.interpreter) continue;
+      if (!byInterpreter.has(review.interpreter.id)) {
+        byInterpreter.set(review.interpreter.id, { interpreter: review.interpreter, reviews: [] });
+      }
+      byInterpreter.get(review.interpreter.id)!.reviews.push(review);
+    }
+
+    return res.json({
+      from: from.toISOString(),
+      to: to.toISOString(),
+      overall: { ...summarizeReviews(reviews), pendingReview: pending.reduce((sum, row) => sum + row._count._all, 0) },
+      byInterpreter: Array.from(byInterpreter.values()).map((group) => ({
+        interpreter: group.interpreter,
+        ...summarizeReviews(group.reviews),
+        pendingReview: pendingByInterpreter.get(group.interpreter.id) ?? 0,
+      })),
+    });
+  } catch (error) {
+    console.error('[Admin] Review report error:', error);
+    return res.status(500).json({ error: 'Failed to build review report' });
+  }
+});
+
+// Ratings for moderation, newest first. Unlike the public view, hidden reviews are included.
+router.get('/ratings', requirePermission('ratings:moderate'), async (req, res) => {
+  try {
+    const query = req.query as Record<string, unknown>;
+
+    const page = parsePageParams(query);
+    if ('error' in page) {
+      return res.status(400).json({ error: page.error });
+    }
+
+    const where: Prisma.DreamRatingWhereInput = {};
+    if (query.hidden === 'true' || query.hidden === 'false') {
+      where.hiddenAt = query.hidden === 'true' ? { not: null } : null;
+    }
+    if (typeof query.interpreterId === 'string' && query.interpreterId) {
+      where.interpreterId = query.interpreterId;
+    }
+    if (typeof query.maxStars === 'string' && query.maxStars) {
+      const maxStars = Number(query.maxStars);
+      if (!Number.isInteger(maxStars)) {
+        return res.status(400).json({ error: 'maxStars must be a whole number' });
+      }
+      where.stars = { lte: maxStars };
+    }
+
+    const rows = await prisma.dreamRating.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: page.limit + 1,
+      ...(page.cursor && { cursor: { id: page.cursor }, skip: 1 }),
+      include: {
+        dream: { select: { id: true, title: true } },
+        dreamer: { select: { id: true, fullName: true, email: true } },
+        interpreter: { select: { id: true, fullName: true } },
+        hiddenBy: { select: { id: true, fullName: true } },
+      },
+    });
 
+    const { items, nextCursor } = buildPage(rows, page.limit);
+
+    return res.json({ ratings: items, nextCursor });
+  } catch (error) {
+    console.error('[Admin] Ratings fetch error:', error);
+    return res.status(500).json({ error: 'Failed to fetch ratings' });
+  }
+});
+
+// Hide an abusive review (or restore it). Hidden ratings don't count towards the interpreter's rating.
+router.patch('/ratings/:id', requirePermission('ratings:moderate'), async (req, res) => {
+  try {
+    const requesterId = req.user!.userId;
+    const { hidden, reason } = req.body ?? {};
+
+    if (typeof hidden !== 'boolean') {
+      return res.status(400).json({ error: 'hidden must be boolean' });
+    }
+
+    if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+      return res.status(400).json({ error: 'reason must be a string' });
+    }
+
+    const existing = await prisma.dreamRating.findUnique({ where: { id: req.params.id } });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Rating not found' });
+    }
+
+    const rating = await prisma.$transaction(async (tx) => {
+      const updated = await tx.dreamRating.update({
+        where: { id: existing.id },
+        data: hidden
+          ? { hiddenAt: new Date(), hiddenById: requesterId, hiddenReason: reason?.trim() || null }
+          : { hiddenAt: null, hiddenById: null, hiddenReason: null },
+      });
+
+      if (hidden !== Boolean(existing.hiddenAt) && existing.interpreterId) {
+        await recalculateInterpreterRating(tx, existing.interpreterId);
+      }
+
+      await tx.adminLog.create({
+        data: {
+          adminId: requesterId,
+          action: hidden ? 'hide_rating' : 'restore_rating',
+          targetType: 'rating',
+          targetId: existing.id,
+          details: { dreamId: existing.dreamId, interpreterId: existing.interpreterId, reason: reason ?? null },
+        },
+      });
+
+      return updated;
+    });
 
+    return res.json({ rating });
+  } catch (error) {
+    console.error('[Admin] Rating moderation error:', error);
+    return res.status(500).json({ error: 'Failed to update rating' });
+  }
+});
+
+// Publishing requests, oldest first so the approval queue is worked in order
+router.get('/publications', requirePermission('publications:moderate'), async (req, res) => {
+  try {
+    const query = req.query as Record<string, unknown>;
+
+    const page = parsePageParams(query);
+    if ('error' in page) {
+      return res.status(400).json({ error: page.error });
+    }
+
+    const status = query.status ?? 'pending';
+    if (status !== 'pending' && status !== 'approved' && status !== 'rejected' && status !== 'withdrawn') {
+      return res.status(400).json({ error: 'status must be one of: pending, approved, rejected, withdrawn' });
+    }
+
+    const rows = await prisma.publishedDream.findMany({
+      where: { status },
+      orderBy: [{ updatedAt: 'asc' }, { id: 'asc' }],
+      take: page.limit + 1,
+      ...(page.cursor && { cursor: { id: page.cursor }, skip: 1 }),
+      include: {
+        dream: { select: { id: true, title: true, content: true, interpretation: true, dreamerId: true } },
+        reviewedBy: { select: { id: true, fullName: true } },
+      },
+    });
+
+    const { items, nextCursor } = buildPage(rows, page.limit);
+
+    return res.json({
+      // The original text is included so moderators can check what the anonymizer missed
+      publications: items.map((publication) => ({
+        ...formatPublication(publication),
+        original: publication.dream,
+        reviewedBy: publication.reviewedBy,
+      })),
+      nextCursor,
+    });
+  } catch (error) {
+    console.error('[Admin] Publications fetch error:', error);
+    return res.status(500).json({ error: 'Failed to fetch publications' });
+  }
+});
+
+// Approve (optionally fixing the anonymized text or category) or reject a
+// publication. Approved ones can later be rejected to take them off the feed.
+router.patch('/publications/:id', requirePermission('publications:moderate'), async (req, res) => {
+  try {
+    const requesterId = req.user!.userId;
+    const { status, reason, title, content, interpretation, category } = req.body ?? {};
+
+    if (status !== 'approved' && status !== 'rejected') {
+      return res.status(400).json({ error: 'status must be approved or rejected' });
+    }
+
+    if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+      return res.status(400).json({ error: 'reason must be a string' });
+    }
+
+    if (category !== undefined && !isDreamCategory(category)) {
+      return res.status(400).json({ error: `category must be one of: ${Object.keys(DREAM_CATEGORIES).join(', ')}` });
+    }
+
+    for (const [field, value] of Object.entries({ title, content, interpretation })) {
+      if (value !== undefined && (typeof value !== 'string' || !value.trim())) {
+        return res.status(400).json({ error: `${field} must be a non-empty string` });
+      }
+    }
+
+    const existing = await prisma.publishedDream.findUnique({ where: { id: req.params.id } });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Publication not found' });
+    }
+
+    if (existing.status === 'withdrawn') {
+      return res.status(409).json({
+        error: 'The dreamer withdrew this dream from publishing',
+        code: 'PUBLICATION_WITHDRAWN',
+      });
+    }
+
+    const now = new Date();
+
+    const publication = await prisma.$transaction(async (tx) => {
+      // Guard on the status we read so a withdrawal in between isn't overridden
+      const { count } = await tx.publishedDream.updateMany({
+        where: { id: existing.id, status: existing.status },
+        data: {
+          status,
+          reviewedById: requesterId,
+          reviewedAt: now,
+          rejectionReason: status === 'rejected' ? reason?.trim() || null : null,
+          publishedAt: status === 'approved' ? existing.publishedAt ?? now : null,
+          ...(title !== undefined && { title: title.trim() }),
+          ...(content !== undefined && { content }),
+          ...(interpretation !== undefined && { interpretation }),
+          ...(category !== undefined && { category }),
+        },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      await tx.adminLog.create({
+        data: {
+          adminId: requesterId,
+          action: status === 'approved' ? 'approve_publication' : 'reject_publication',
+          targetType: 'published_dream',
+          targetId: existing.id,
+          details: {
+            dreamId: existing.dreamId,
+            previousStatus: existing.status,
+            edited: [title, content, interpretation, category].some((value) => value !== undefined),
+            reason: reason ?? null,
+          },
+        },
+      });
+
+      return tx.publishedDream.findUniqueOrThrow({ where: { id: existing.id } });
+    });
+
+    if (!publication) {
+      return res.status(409).json({
+        error: 'The publication was changed by someone else, reload and try again',
+        code: 'PUBLICATION_CONFLICT',
+      });
+    }
+
+    return res.json({ publication: formatPublication(publication) });
+  } catch (error) {
+    console.error('[Admin] Publication moderation error:', error);
+    return res.status(500).json({ error: 'Failed to update publication' });
+  }
+});
+
+// Dry run: which interpreter would the next new dream go to, and why
+router.get('/assignment/preview', requirePermission('dreams:assign'), async (req, res) => {
+  try {
+    const strategy = typeof req.query.strategy === 'string' ? req.query.strategy : AUTO_ASSIGN_STRATEGY;
+    const preview = await previewAssignment(strategy);
+
+    if (!preview) {
+      return res.status(400).json({
+        error: 'Unknown assignment strategy',
+        code: 'UNKNOWN_ASSIGNMENT_STRATEGY',
+        strategies: listAssignmentStrategies(),
+      });
+    }
+
+    return res.json({ ...preview, autoAssign: AUTO_ASSIGN_STRATEGY });
+  } catch (error) {
+    console.error('[Admin] Assignment preview error:', error);
+    return res.status(500).json({ error: 'Failed to preview assignment' });
+  }
+});
+
+// Run the assignment engine for a single dream, e.g. one that stayed unassigned
+// because everyone was at capacity. Manual assignment goes through PATCH /api/dreams/:id.
+router.post('/dreams/:id/auto-assign', requirePermission('dreams:assign'), async (req, res) => {
+  try {
+    const requesterId = req.user!.userId;
+    const { strategy } = req.body ?? {};
+
+    if (strategy !== undefined && typeof strategy !== 'string') {
+      return res.status(400).json({ error: 'strategy must be a string' });
+    }
+
+    const dream = await prisma.dream.findUnique({
+      where: { id: req.params.id },
+      select: { id: true },
+    });
+
+    if (!dream) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    const result = await autoAssignDream(dream.id, { strategy, actorId: requesterId });
+
+    if (result.status === 'unknown_strategy') {
+      return res.status(400).json({
+        error: 'Unknown assignment strategy',
+        code: 'UNKNOWN_ASSIGNMENT_STRATEGY',
+        strategies: listAssignmentStrategies(),
+      });
+    }
+    if (result.status === 'not_assignable') {
+      return res.status(409).json({
+        error: 'Only new, unassigned dreams can be auto-assigned',
+        code: 'DREAM_NOT_ASSIGNABLE',
+      });
+    }
+    if (result.status === 'quota_exceeded') {
+      return res.status(403).json({
+        error: `Interpretation limit (${result.limit}) reached for the dreamer's plan`,
+        code: 'INTERPRETATION_QUOTA_EXCEEDED',
+        limit: result.limit,
+      });
+    }
+    if (result.status === 'no_candidate') {
+      return res.status(409).json({
+        error: 'No interpreter is available to take this dream',
+        code: 'NO_INTERPRETER_AVAILABLE',
+      });
+    }
+
+    await prisma.adminLog.create({
+      data: {
+        adminId: requesterId,
+        action: 'auto_assign_dream',
+        targetType: 'dream',
+        targetId: dream.id,
+        details: { interpreterId: result.interpreterId, strategy: result.strategy },
+      },
+    });
+
+    return res.json({ success: true, interpreterId: result.interpreterId, strategy: result.strategy });
+  } catch (error) {
+    console.error('[Admin] Auto-assign error:', error);
+    return res.status(500).json({ error: 'Failed to assign dream' });
+  }
+});
+
+// Start a time-limited "view as user" session. The token is returned in the
+// body and used as a Bearer token, so the admin's own cookies are kept.
+router.post('/users/:id/impersonate', requirePermission('users:impersonate'), async (req, res) => {
+  try {
+    const requesterId = req.user!.userId;
+    const targetId = req.params.id;
+    const { reason } = req.body ?? {};
+
+    if (req.user!.impersonator) {
+      return res.status(400).json({ error: 'Already impersonating a user', code: 'IMPERSONATION_FORBIDDEN' });
+    }
+
+    if (targetId === requesterId) {
+      return res.status(400).json({ error: 'You cannot impersonate yourself' });
+    }
+
+    if (reason !== undefined && typeof reason !== 'string') {
+      return res.status(400).json({ error: 'reason must be a string' });
+    }
+
+    const target = await prisma.user.findUnique({
+      where: { id: targetId },
+      include: { profile: { select: { role: true } } },
+    });
+
+    if (!target || !target.profile) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    // Staff accounts can't be impersonated, so impersonation never grants admin access
+    if (target.profile.role === 'admin' || target.profile.role === 'super_admin') {
+      return res.status(403).json({ error: 'Admin accounts cannot be impersonated' });
+    }
+
+    if (target.suspendedAt) {
+      return res.status(400).json({ error: 'Suspended accounts cannot be impersonated', code: 'ACCOUNT_SUSPENDED' });
+    }
+
+    const { session, accessToken } = await startImpersonationSession(
+      req,
+      {
+        id: target.id,
+        email: target.email,
+        role: target.profile.role,
+        tokenVersion: target.tokenVersion,
+      },
+      requesterId,
+      reason?.trim().slice(0, 500) || null
+    );
+
+    await prisma.adminLog.create({
+      data: {
+        adminId: requesterId,
+        action: 'start_impersonation',
+        targetType: 'user',
+        targetId: target.id,
+        details: { sessionId: session.id, reason: session.impersonationReason },
+      },
+    });
+
+    await recordSecurityEvent(req, {
+      type: 'impersonation_started',
+      userId: target.id,
+      email: target.email,
+      details: { sessionId: session.id, impersonatorId: requesterId },
+    });
+
+    return res.status(201).json({
+      token: accessToken,
+      sessionId: session.id,
+      expiresAt: session.expiresAt.toISOString(),
+      user: { id: target.id, email: target.email, role: target.profile.role },
+    });
+  } catch (error) {
+    console.error('[Admin] Impersonation start error:', error);
+    return res.status(500).json({ error: 'Failed to start impersonation' });
+  }
+});
+
+router.get('/impersonations', requirePermission('users:impersonate'), async (req, res) => {
+  try {
+    const sessions = await prisma.session.findMany({
+      where: {
+        impersonatorId: { not: null },
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        user: { select: { email: true } },
+        impersonator: { select: { email: true } },
+      },
+    });
+
+    return res.json({
+      impersonations: sessions.map((session) => ({
+        sessionId: session.id,
+        userId: session.userId,
+        userEmail: session.user.email,
+        impersonatorId: session.impersonatorId,
+        impersonatorEmail: session.impersonator?.email ?? null,
+        reason: session.impersonationReason,
+        createdAt: session.createdAt.toISOString(),
+        expiresAt: session.expiresAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('[Admin] Impersonations fetch error:', error);
+    return res.status(500).json({ error: 'Failed to fetch impersonation sessions' });
+  }
+});
+
+router.delete('/impersonations/:sessionId', requirePermission('users:impersonate'), async (req, res) => {
+  try {
+    const requesterId = req.user!.userId;
+    const { sessionId } = req.params;
+
+    const session = await prisma.session.findUnique({ where: { id: sessionId } });
+
+    if (!session || !session.impersonatorId) {
+      return res.status(404).json({ error: 'Impersonation session not found' });
+    }
+
+    await revokeSession(session.id, 'impersonation_ended');
+
+    await prisma.adminLog.create({
+      data: {
+        adminId: requesterId,
+        action: 'end_impersonation',
+        targetType: 'user',
+        targetId: session.userId,
+        details: { sessionId: session.id },
+      },
+    });
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('[Admin] Impersonation end error:', error);
+    return res.status(500).json({ error: 'Failed to end impersonation' });
+  }
+});
+
+router.get('/lockouts', requirePermission('lockouts:manage'), async (req, res) => {
+  try {
+    const lockouts = await listLoginLockouts();
+    const lockedOnly = req.query.lockedOnly === 'true';
+
+    return res.json({ lockouts: lockedOnly ? lockouts.filter((lockout) => lockout.isLocked) : lockouts });
+  } catch (error) {
+    console.error('[Admin] Lockouts fetch error:', error);
+    return res.status(500).json({ error: 'Failed to fetch lockouts' });
+  }
+});
+
+router.delete('/lockouts/:key', requirePermission('lockouts:manage'), async (req, res) => {
+  try {
+    const requesterId = req.user!.userId;
+
+    const { key } = req.params;
+
+    if (!key.startsWith('email:') && !key.startsWith('ip:')) {
+      return res.status(400).json({ error: 'key must start with "email:" or "ip:"' });
+    }
+
+    await clearLoginFailures(key);
+
+    await recordSecurityEvent(req, {
+      type: 'lockout_cleared',
+      details: { key, clearedBy: requesterId },
+    });
+
+    await prisma.adminLog.create({
+      data: {
+        adminId: requesterId,
+        action: 'clear_login_lockout',
+        targetType: 'login_throttle',
+        targetId: key,
+      },
+    });
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('[Admin] Lockout clear error:', error);
+    return res.status(500).json({ error: 'Failed to clear lockout' });
+  }
+});
+
+router.get('/api-keys', requirePermission('security:manage'), async (req, res) => {
+  try {
+    const profileId = req.query.profileId as string | undefined;
+    const activeOnly = req.query.activeOnly === 'true';
+
+    const apiKeys = await prisma.apiKey.findMany({
+      where: {
+        ...(profileId && { profileId }),
+        ...(activeOnly && {
+          revokedAt: null,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+        }),
+      },
+      orderBy: { createdAt: 'desc' },
+      include: { profile: { select: { email: true, fullName: true } } },
+    });
+
+    return res.json({
+      apiKeys: apiKeys.map(({ profile, ...apiKey }) => ({
+        ...formatApiKey(apiKey),
+        profileId: apiKey.profileId,
+        ownerEmail: profile.email,
+        ownerName: profile.fullName,
+      })),
+    });
+  } catch (error) {
+    console.error('[Admin] API keys fetch error:', error);
+    return res.status(500).json({ error: 'Failed to fetch API keys' });
+  }
+});
+
+router.delete('/api-keys/:id', requirePermission('security:manage'), async (req, res) => {
+  try {
+    const requesterId = req.user!.userId;
+    const { id } = req.params;
+
+    const { count } = await prisma.apiKey.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    await prisma.adminLog.create({
+      data: {
+        adminId: requesterId,
+        action: 'revoke_api_key',
+        targetType: 'api_key',
+        targetId: id,
+      },
+    });
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('[Admin] API key revoke error:', error);
+    return res.status(500).json({ error: 'Failed to revoke API key' });
+  }
+});
+
+// Rebuild the search documents for every dream, e.g. after changing normalization rules
+router.post('/dreams/reindex-search', requirePermission('dreams:manage'), async (req, res) => {
+  try {
+    const requesterId = req.user!.userId;
+    const batchSize = 200;
+    let cursor: string | undefined;
+    let indexed = 0;
+
+    for (;;) {
+      const dreams = await prisma.dream.findMany({
+        select: { id: true, title: true, content: true, description: true, interpretation: true },
+        orderBy: { id: 'asc' },
+        take: batchSize,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      for (const dream of dreams) {
+        await syncDreamSearchDocument(dream);
+      }
+
+      indexed += dreams.length;
+
+      if (dreams.length < batchSize) break;
+      cursor = dreams[dreams.length - 1].id;
+    }
+
+    await prisma.adminLog.create({
+      data: {
+        adminId: requesterId,
+        action: 'reindex_dream_search',
+        details: { indexed },
+      },
+    });
+
+    return res.json({ success: true, indexed });
+  } catch (error) {
+    console.error('[Admin] Dream search reindex error:', error);
+    return res.status(500).json({ error: 'Failed to rebuild the dream search index' });
+  }
+});
+
+router.get('/security-events', requirePermission('security:manage'), async (req, res) => {
+  try {
+    const type = req.query.type as string | undefined;
+    const userId = req.query.userId as string | undefined;
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+
+    const events = await prisma.securityEvent.findMany({
+      where: {
+        ...(type && { type }),
+        ...(userId && { userId }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return res.json({ events });
+  } catch (error) {
+    console.error('[Admin] Security events fetch error:', error);
+    return res.status(500).json({ error: 'Failed to fetch security events' });
+  }
+});
+
+router.get('/permissions', requirePermission('permissions:manage'), async (_req, res) => {
+  try {
+    const overrides = await prisma.rolePermission.findMany({
+      orderBy: [{ role: 'asc' }, { permission: 'asc' }],
+    });
+
+    const roles: Record<string, { defaults: string[]; effective: string[] }> = {};
+    for (const role of ROLES) {
+      roles[role] = {
+        defaults: getDefaultRolePermissions(role),
+        effective: Array.from(await getRolePermissions(role)),
+      };
+    }
+
+    return res.json({ permissions: PERMISSIONS, roles, overrides });
+  } catch (error) {
+    console.error('[Admin] Permissions fetch error:', error);
+    return res.status(500).json({ error: 'Failed to fetch permissions' });
+  }
+});
+
+router.put('/permissions/:role', requirePermission('permissions:manage'), async (req, res) => {
+  try {
+    const requesterId = req.user!.userId;
+    const { role } = req.params;
+    const { permission, granted } = req.body ?? {};
+
+    if (!isRole(role)) {
+      return res.status(400).json({ error: 'Invalid role value' });
+    }
+
+    if (!isPermission(permission)) {
+      return res.status(400).json({ error: 'Unknown permission', permissions: PERMISSIONS });
+    }
+
+    if (typeof granted !== 'boolean') {
+      return res.status(400).json({ error: 'granted must be boolean' });
+    }
+
+    if (!granted && isProtectedGrant(role, permission)) {
+      return res.status(400).json({ error: 'This permission cannot be removed from this role' });
+    }
+
+    const override = await prisma.rolePermission.upsert({
+      where: { role_permission: { role, permission } },
+      create: { role, permission, granted, updatedById: requesterId },
+      update: { granted, updatedById: requesterId },
+    });
+
+    await prisma.adminLog.create({
+      data: {
+        adminId: requesterId,
+        action: granted ? 'grant_permission' : 'revoke_permission',
+        targetType: 'role',
+        targetId: role,
+        details: { permission },
+      },
+    });
+
+    invalidatePermissionCache();
+
+    return res.json({ override, effective: Array.from(await getRolePermissions(role)) });
+  } catch (error) {
+    console.error('[Admin] Permission update error:', error);
+    return res.status(500).json({ error: 'Failed to update permission' });
+  }
+});
+
+// Drop an override so the role falls back to its built-in grant
+router.delete('/permissions/:role/:permission', requirePermission('permissions:manage'), async (req, res) => {
+  try {
+    const requesterId = req.user!.userId;
+    const { role, permission } = req.params;
+
+    if (!isRole(role) || !isPermission(permission)) {
+      return res.status(400).json({ error: 'Invalid role or permission' });
+    }
+
+    const { count } = await prisma.rolePermission.deleteMany({ where: { role, permission } });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Override not found' });
+    }
+
+    await prisma.adminLog.create({
+      data: {
+        adminId: requesterId,
+        action: 'reset_permission',
+        targetType: 'role',
+        targetId: role,
+        details: { permission },
+      },
+    });
+
+    invalidatePermissionCache();
+
+    return res.json({ success: true, effective: Array.from(await getRolePermissions(role)) });
+  } catch (error) {
+    console.error('[Admin] Permission reset error:', error);
+    return res.status(500).json({ error: 'Failed to reset permission' });
+  }
+});
+
+export default router;
 
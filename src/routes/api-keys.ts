@@ -0,0 +1,122 @@
+import { Router } from 'express';
+import prisma from '../lib/prisma';
+import { forbidImpersonation, requireAuth } from '../middleware/auth';
+import { recordSecurityEvent } from '../utils/securityEvents';
+import { API_KEY_SCOPES, formatApiKey, generateApiKey, isApiKeyScope, parseScopes } from '../utils/apiKeys';
+
+const router = Router();
+
+const MAX_ACTIVE_KEYS = 20;
+const MAX_EXPIRY_DAYS = 365;
+
+router.use(requireAuth, forbidImpersonation);
+
+router.get('/', async (req, res) => {
+  try {
+    const apiKeys = await prisma.apiKey.findMany({
+      where: { profileId: req.user!.userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return res.json({ apiKeys: apiKeys.map(formatApiKey), availableScopes: API_KEY_SCOPES });
+  } catch (error) {
+    console.error('[API Keys] Fetch error:', error);
+    return res.status(500).json({ error: 'Failed to fetch API keys' });
+  }
+});
+
+router.post('/', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const { name, scopes, expiresInDays } = req.body ?? {};
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'name is required' });
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+      return res.status(400).json({
+        error: 'scopes must be a non-empty list of valid scopes',
+        availableScopes: API_KEY_SCOPES,
+      });
+    }
+
+    if (
+      expiresInDays !== undefined &&
+      expiresInDays !== null &&
+      (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS)
+    ) {
+      return res.status(400).json({ error: `expiresInDays must be between 1 and ${MAX_EXPIRY_DAYS}` });
+    }
+
+    const activeKeys = await prisma.apiKey.count({
+      where: {
+        profileId: userId,
+        revokedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+    });
+
+    if (activeKeys >= MAX_ACTIVE_KEYS) {
+      return res.status(400).json({
+        error: `You can have at most ${MAX_ACTIVE_KEYS} active API keys`,
+        code: 'API_KEY_LIMIT_REACHED',
+      });
+    }
+
+    const { key, prefix, keyHash } = generateApiKey();
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        profileId: userId,
+        name: name.trim().slice(0, 100),
+        prefix,
+        keyHash,
+        scopes: Array.from(new Set(scopes)),
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      },
+    });
+
+    await recordSecurityEvent(req, {
+      type: 'api_key_created',
+      userId,
+      email: req.user!.email,
+      details: { apiKeyId: apiKey.id, prefix, scopes: parseScopes(apiKey.scopes) },
+    });
+
+    // The full key is only ever returned here
+    return res.status(201).json({ apiKey: formatApiKey(apiKey), key });
+  } catch (error) {
+    console.error('[API Keys] Create error:', error);
+    return res.status(500).json({ error: 'Failed to create API key' });
+  }
+});
+
+router.delete('/:id', async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+
+    const { count } = await prisma.apiKey.updateMany({
+      where: { id: req.params.id, profileId: userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    await recordSecurityEvent(req, {
+      type: 'api_key_revoked',
+      userId,
+      email: req.user!.email,
+      details: { apiKeyId: req.params.id },
+    });
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('[API Keys] Revoke error:', error);
+    return res.status(500).json({ error: 'Failed to revoke API key' });
+  }
+});
+
+export default router;
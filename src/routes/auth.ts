@@ -1,8 +1,45 @@
-import { Router } from 'express';
+import { Request, Response, Router } from 'express';
+import { EmailVerificationToken, Profile, User } from '@prisma/client';
 import prisma from '../lib/prisma';
-import { hashPassword, verifyPassword, generateToken } from '../utils/auth';
-import { setSessionCookie, clearSessionCookie } from '../utils/session';
-import { requireAuth } from '../middleware/auth';
+import {
+  hashPassword,
+  verifyPassword,
+  generateChallengeToken,
+  formatLoginResponse,
+  MIN_PASSWORD_LENGTH,
+  OidcLoginState,
+  generateOidcStateToken,
+  verifyOidcStateToken,
+} from '../utils/auth';
+import {
+  setSessionCookie,
+  setRefreshCookie,
+  clearSessionCookie,
+  getRefreshToken,
+  startSession,
+  rotateRefreshToken,
+  revokeSession,
+  revokeUserSessions,
+  bumpTokenVersion,
+  reissueAccessToken,
+} from '../utils/session';
+import { generateOpaqueToken, hashOpaqueToken } from '../utils/tokens';
+import { buildAppUrl, emailChangedNotice, emailVerificationEmail, passwordResetEmail } from '../utils/emails';
+import { assignTrialPlan } from '../utils/plans';
+import { getInterpretationAllowance } from '../utils/quota';
+import { sendMail } from '../lib/mailer';
+import { checkLoginAllowed, clearLoginFailures, recordLoginFailure, throttleKeys } from '../lib/loginThrottle';
+import { recordSecurityEvent } from '../utils/securityEvents';
+import { allowWithoutTwoFactor, forbidImpersonation, optionalAuth, requireAuth } from '../middleware/auth';
+import {
+  OidcIdentity,
+  OidcProvider,
+  buildAuthorizationUrl,
+  exchangeOidcCode,
+  generateCodeVerifier,
+  getOidcProvider,
+  listOidcProviders,
+} from '../lib/oidc';
 
 const router = Router();
 
@@ -10,6 +47,111 @@ const COOKIE_MAX_AGE = 60 * 60 * 24 * 7; // 7 days
 
 const ALLOWED_SELF_SERVICE_ROLES = new Set(['dreamer', 'interpreter']);
 
+const PASSWORD_RESET_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES || 60);
+const EMAIL_VERIFICATION_TTL_HOURS = Number(process.env.EMAIL_VERIFICATION_TTL_HOURS || 48);
+const VERIFICATION_RESEND_COOLDOWN_SECONDS = 60;
+
+const OIDC_STATE_COOKIE_NAME = 'oidc_state';
+const OIDC_COOKIE_PATH = '/api/auth/oidc';
+
+async function sendVerificationEmail(userId: string, email: string) {
+  const token = generateOpaqueToken();
+
+  await prisma.emailVerificationToken.create({
+    data: {
+      userId,
+      email,
+      tokenHash: hashOpaqueToken(token),
+      expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000),
+    },
+  });
+
+  await sendMail(emailVerificationEmail(email, token, EMAIL_VERIFICATION_TTL_HOURS));
+}
+
+async function confirmEmailChange(
+  req: Request,
+  res: Response,
+  verificationToken: EmailVerificationToken & { user: User & { profile: Profile | null } }
+) {
+  const { user } = verificationToken;
+  const newEmail = verificationToken.email;
+  const oldEmail = user.email;
+
+  const [existingUser, existingProfile] = await Promise.all([
+    prisma.user.findUnique({ where: { email: newEmail } }),
+    prisma.profile.findUnique({ where: { email: newEmail } }),
+  ]);
+
+  if (existingUser || existingProfile) {
+    return res.status(409).json({ error: 'This email is already in use', code: 'EMAIL_IN_USE' });
+  }
+
+  // Keep the confirming browser signed in if it belongs to the same account
+  const keepSessionId = req.user?.userId === user.id && !req.user.apiKey ? req.user.sessionId : undefined;
+
+  const result = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.emailVerificationToken.updateMany({
+      where: { id: verificationToken.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    // Tokens issued for the old address must not switch the email back
+    await tx.emailVerificationToken.updateMany({
+      where: { userId: user.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    await tx.user.update({
+      where: { id: user.id },
+      data: { email: newEmail, emailVerifiedAt: new Date() },
+    });
+
+    await tx.profile.update({
+      where: { id: user.id },
+      data: { email: newEmail },
+    });
+
+    const tokenVersion = await bumpTokenVersion(user.id, tx);
+    await revokeUserSessions(user.id, 'email_changed', { exceptSessionId: keepSessionId, db: tx });
+
+    return { tokenVersion };
+  });
+
+  if (!result) {
+    return res.status(400).json({ error: 'Invalid or expired verification token', code: 'INVALID_VERIFICATION_TOKEN' });
+  }
+
+  // Returned as well as set as a cookie, for clients using the Authorization header
+  const token =
+    keepSessionId && user.profile
+      ? reissueAccessToken(
+          res,
+          { id: user.id, email: newEmail, role: user.profile.role, tokenVersion: result.tokenVersion },
+          keepSessionId
+        )
+      : undefined;
+
+  await recordSecurityEvent(req, {
+    type: 'email_changed',
+    userId: user.id,
+    email: newEmail,
+    details: { oldEmail },
+  });
+
+  try {
+    await sendMail(emailChangedNotice(oldEmail, newEmail));
+  } catch (mailError) {
+    console.error('[Auth] Failed to send email change notice:', mailError);
+  }
+
+  return res.json({ message: 'Email changed successfully', email: newEmail, ...(token && { token }) });
+}
+
 router.post('/register', async (req, res) => {
   try {
     const { email, password, fullName, role = 'dreamer' } = req.body ?? {};
@@ -46,48 +188,29 @@ router.post('/register', async (req, res) => {
         },
       });
 
-      // Auto-assign free trial plan for dreamers
-      if (role === 'dreamer') {
-        const trialPlan = await tx.plan.findFirst({
-          where: {
-            isTrial: true,
-            isActive: true,
-          },
-          orderBy: { createdAt: 'desc' },
-        });
-
-        if (trialPlan && trialPlan.trialDurationDays) {
-          const now = new Date();
-          const expiresAt = new Date(now);
-          expiresAt.setDate(expiresAt.getDate() + trialPlan.trialDurationDays);
-
-          await tx.userPlan.create({
-            data: {
-              userId: createdUser.id,
-              planId: trialPlan.id,
-              isActive: true,
-              startedAt: now,
-              expiresAt: expiresAt,
-              lettersUsed: 0,
-              audioMinutesUsed: 0,
-            },
-          });
-
-          console.log(`[Auth] Assigned trial plan to new dreamer: ${email}, expires: ${expiresAt.toISOString()}`);
-        }
-      }
-
       return { user: createdUser, profile: createdProfile };
     });
 
-    const token = generateToken({ userId: user.id, email: user.email, role: profile.role });
-    setSessionCookie(res, token);
+    // The trial plan is granted once the email is verified, see POST /verify-email
+    try {
+      await sendVerificationEmail(user.id, user.email);
+    } catch (mailError) {
+      console.error('[Auth] Failed to send verification email:', mailError);
+    }
+
+    await startSession(req, res, {
+      id: user.id,
+      email: user.email,
+      role: profile.role,
+      tokenVersion: user.tokenVersion,
+    });
 
     return res.status(201).json({
       user: {
         id: user.id,
         email: user.email,
         role: profile.role,
+        emailVerified: false,
       },
       profile: {
         id: profile.id,
@@ -119,57 +242,759 @@ router.post('/login', async (req, res) => {
       return res.status(400).json({ error: 'Email and password are required' });
     }
 
+    const keys = throttleKeys(String(email), req.ip);
+    const decision = await checkLoginAllowed(keys);
+
+    if (!decision.allowed) {
+      res.set('Retry-After', String(decision.retryAfterSeconds));
+      return res.status(429).json({
+        error: decision.reason === 'locked'
+          ? 'Too many failed login attempts. Try again later'
+          : 'Please wait before trying again',
+        code: decision.reason === 'locked' ? 'LOGIN_LOCKED' : 'LOGIN_THROTTLED',
+        retryAfterSeconds: decision.retryAfterSeconds,
+      });
+    }
+
     const user = await prisma.user.findUnique({
       where: { email },
       include: { profile: true },
     });
 
-    if (!user || !user.profile) {
+    const isValidPassword = user && user.profile
+      ? await verifyPassword(password, user.password)
+      : false;
+
+    if (!user || !user.profile || !isValidPassword) {
+      const lockedKeys = await recordLoginFailure(keys);
+
+      await recordSecurityEvent(req, {
+        type: 'login_failed',
+        userId: user?.id,
+        email,
+      });
+
+      if (lockedKeys.length > 0) {
+        await recordSecurityEvent(req, {
+          type: 'login_locked',
+          userId: user?.id,
+          email,
+          details: { keys: lockedKeys },
+        });
+      }
+
       return res.status(401).json({ error: 'Invalid email or password' });
     }
 
-    const isValidPassword = await verifyPassword(password, user.password);
-    if (!isValidPassword) {
-      return res.status(401).json({ error: 'Invalid email or password' });
+    await clearLoginFailures(keys[0]);
+
+    if (user.suspendedAt) {
+      return res.status(403).json({ error: 'This account has been suspended', code: 'ACCOUNT_SUSPENDED' });
     }
 
-    const token = generateToken({ userId: user.id, email: user.email, role: user.profile.role });
-    setSessionCookie(res, token);
+    if (user.totpEnabledAt) {
+      return res.json({
+        twoFactorRequired: true,
+        challengeToken: generateChallengeToken(user.id),
+      });
+    }
 
-    return res.json({
-      user: {
-        id: user.id,
-        email: user.email,
-        role: user.profile.role,
-      },
-      profile: {
-        id: user.profile.id,
-        email: user.profile.email,
-        fullName: user.profile.fullName,
-        role: user.profile.role,
-        avatarUrl: user.profile.avatarUrl,
-        bio: user.profile.bio,
-        isAvailable: user.profile.isAvailable,
-        totalInterpretations: user.profile.totalInterpretations,
-        rating: user.profile.rating.toString(),
-        isAdmin: user.profile.role === 'admin' || user.profile.role === 'super_admin',
-        isSuperAdmin: user.profile.role === 'super_admin',
-        createdAt: user.profile.createdAt.toISOString(),
-        updatedAt: user.profile.updatedAt.toISOString(),
-      },
+    await startSession(req, res, {
+      id: user.id,
+      email: user.email,
+      role: user.profile.role,
+      tokenVersion: user.tokenVersion,
     });
+
+    return res.json(formatLoginResponse(user, user.profile));
   } catch (error) {
     console.error('[Auth] Login error:', error);
     return res.status(500).json({ error: 'Failed to authenticate user' });
   }
 });
 
-router.post('/logout', (_req, res) => {
+router.post('/logout', allowWithoutTwoFactor, optionalAuth, async (req, res) => {
+  try {
+    if (req.user?.sessionId) {
+      await revokeSession(req.user.sessionId, 'logout');
+    }
+
+    // Ending an impersonation must leave the admin's own cookies and session alone
+    if (req.user?.impersonator) {
+      return res.json({ message: 'Impersonation ended' });
+    }
+
+    // The access token may already have expired; fall back to the refresh token's session
+    const refreshToken = getRefreshToken(req);
+    if (refreshToken) {
+      const stored = await prisma.refreshToken.findUnique({
+        where: { tokenHash: hashOpaqueToken(refreshToken) },
+        select: { sessionId: true },
+      });
+      if (stored) {
+        await revokeSession(stored.sessionId, 'logout');
+      }
+    }
+  } catch (error) {
+    console.error('[Auth] Logout session revoke error:', error);
+  }
+
   clearSessionCookie(res);
   return res.json({ message: 'Logged out successfully' });
 });
 
-router.get('/me', requireAuth, async (req, res) => {
+router.post('/refresh', async (req, res) => {
+  try {
+    const refreshToken = getRefreshToken(req);
+
+    if (!refreshToken) {
+      return res.status(401).json({ error: 'Refresh token required' });
+    }
+
+    const result = await rotateRefreshToken(refreshToken);
+
+    if (result.status === 'reused') {
+      await recordSecurityEvent(req, {
+        type: 'refresh_token_reuse',
+        userId: result.userId,
+        details: { sessionId: result.sessionId },
+      });
+
+      clearSessionCookie(res);
+      return res.status(401).json({
+        error: 'Refresh token has already been used. The session has been revoked',
+        code: 'REFRESH_TOKEN_REUSED',
+      });
+    }
+
+    if (result.status !== 'ok') {
+      clearSessionCookie(res);
+      return res.status(401).json({ error: 'Invalid or expired refresh token', code: 'INVALID_REFRESH_TOKEN' });
+    }
+
+    setSessionCookie(res, result.accessToken);
+    setRefreshCookie(res, result.refreshToken, result.expiresAt);
+
+    return res.json({ message: 'Session refreshed', expiresAt: result.expiresAt.toISOString() });
+  } catch (error) {
+    console.error('[Auth] Refresh error:', error);
+    return res.status(500).json({ error: 'Failed to refresh session' });
+  }
+});
+
+router.get('/sessions', allowWithoutTwoFactor, requireAuth, async (req, res) => {
+  try {
+    const sessions = await prisma.session.findMany({
+      where: {
+        userId: req.user!.userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    return res.json({
+      sessions: sessions.map((session) => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt.toISOString(),
+        lastUsedAt: session.lastUsedAt.toISOString(),
+        expiresAt: session.expiresAt.toISOString(),
+        current: session.id === req.user!.sessionId,
+        isImpersonation: Boolean(session.impersonatorId),
+      })),
+    });
+  } catch (error) {
+    console.error('[Auth] Sessions fetch error:', error);
+    return res.status(500).json({ error: 'Failed to fetch sessions' });
+  }
+});
+
+router.delete('/sessions/:id', allowWithoutTwoFactor, requireAuth, forbidImpersonation, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const session = await prisma.session.findUnique({ where: { id } });
+
+    if (!session || session.userId !== req.user!.userId) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    await revokeSession(id, 'user_revoked');
+
+    if (id === req.user!.sessionId) {
+      clearSessionCookie(res);
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('[Auth] Session revoke error:', error);
+    return res.status(500).json({ error: 'Failed to revoke session' });
+  }
+});
+
+router.delete('/sessions', allowWithoutTwoFactor, requireAuth, forbidImpersonation, async (req, res) => {
+  try {
+    const keepCurrent = req.query.keepCurrent === 'true';
+
+    const revoked = await revokeUserSessions(req.user!.userId, 'user_revoked_all', {
+      exceptSessionId: keepCurrent ? req.user!.sessionId : undefined,
+    });
+
+    if (!keepCurrent) {
+      clearSessionCookie(res);
+    }
+
+    return res.json({ success: true, revoked });
+  } catch (error) {
+    console.error('[Auth] Sessions revoke error:', error);
+    return res.status(500).json({ error: 'Failed to revoke sessions' });
+  }
+});
+
+router.post('/forgot-password', async (req, res) => {
+  try {
+    const { email } = req.body ?? {};
+
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({ error: 'Email is required' });
+    }
+
+    // Always answer the same way so the endpoint can't be used to probe for accounts
+    const genericResponse = { message: 'If an account exists for this email, a reset link has been sent' };
+
+    const user = await prisma.user.findUnique({ where: { email } });
+    if (!user) {
+      return res.json(genericResponse);
+    }
+
+    const token = generateOpaqueToken();
+    const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+
+    await prisma.$transaction(async (tx) => {
+      // Only the most recently issued link stays usable
+      await tx.passwordResetToken.updateMany({
+        where: { userId: user.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+
+      await tx.passwordResetToken.create({
+        data: {
+          userId: user.id,
+          tokenHash: hashOpaqueToken(token),
+          expiresAt,
+          requestIp: req.ip ?? null,
+        },
+      });
+    });
+
+    // A failed send must look the same as an unknown email
+    try {
+      await sendMail(passwordResetEmail(user.email, token, PASSWORD_RESET_TTL_MINUTES));
+    } catch (error) {
+      console.error('[Auth] Password reset email error:', error);
+    }
+
+    return res.json(genericResponse);
+  } catch (error) {
+    console.error('[Auth] Forgot password error:', error);
+    return res.status(500).json({ error: 'Failed to process password reset request' });
+  }
+});
+
+router.post('/reset-password', async (req, res) => {
+  try {
+    const { token, password } = req.body ?? {};
+
+    if (!token || typeof token !== 'string' || !password || typeof password !== 'string') {
+      return res.status(400).json({ error: 'Token and password are required' });
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const resetToken = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash: hashOpaqueToken(token) },
+    });
+
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date()) {
+      return res.status(400).json({ error: 'Invalid or expired reset token', code: 'INVALID_RESET_TOKEN' });
+    }
+
+    const hashedPassword = await hashPassword(password);
+
+    const consumed = await prisma.$transaction(async (tx) => {
+      // Conditional update so a token can only ever be redeemed once
+      const { count } = await tx.passwordResetToken.updateMany({
+        where: { id: resetToken.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      await tx.user.update({
+        where: { id: resetToken.userId },
+        data: {
+          password: hashedPassword,
+          passwordChangedAt: new Date(),
+        },
+      });
+
+      await bumpTokenVersion(resetToken.userId, tx);
+      await revokeUserSessions(resetToken.userId, 'password_reset', { db: tx });
+
+      return true;
+    });
+
+    if (!consumed) {
+      return res.status(400).json({ error: 'Invalid or expired reset token', code: 'INVALID_RESET_TOKEN' });
+    }
+
+    clearSessionCookie(res);
+
+    return res.json({ message: 'Password has been reset. Please log in with your new password' });
+  } catch (error) {
+    console.error('[Auth] Reset password error:', error);
+    return res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
+// Confirms both sign-up verification and email changes; a token whose email
+// differs from the account's current one was issued by POST /api/profile/change-email
+router.post('/verify-email', optionalAuth, async (req, res) => {
+  try {
+    const { token } = req.body ?? {};
+
+    if (!token || typeof token !== 'string') {
+      return res.status(400).json({ error: 'Token is required' });
+    }
+
+    const verificationToken = await prisma.emailVerificationToken.findUnique({
+      where: { tokenHash: hashOpaqueToken(token) },
+      include: { user: { include: { profile: true } } },
+    });
+
+    if (!verificationToken || verificationToken.usedAt || verificationToken.expiresAt <= new Date()) {
+      return res.status(400).json({ error: 'Invalid or expired verification token', code: 'INVALID_VERIFICATION_TOKEN' });
+    }
+
+    const { user } = verificationToken;
+
+    if (verificationToken.email !== user.email) {
+      return confirmEmailChange(req, res, verificationToken);
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.emailVerificationToken.updateMany({
+        where: { id: verificationToken.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      await tx.user.update({
+        where: { id: user.id },
+        data: { emailVerifiedAt: user.emailVerifiedAt ?? new Date() },
+      });
+
+      const trialSubscription = user.profile?.role === 'dreamer'
+        ? await assignTrialPlan(tx, user.id)
+        : null;
+
+      return { trialAssigned: Boolean(trialSubscription) };
+    });
+
+    if (!result) {
+      return res.status(400).json({ error: 'Invalid or expired verification token', code: 'INVALID_VERIFICATION_TOKEN' });
+    }
+
+    return res.json({ message: 'Email verified successfully', trialAssigned: result.trialAssigned });
+  } catch (error) {
+    console.error('[Auth] Verify email error:', error);
+    return res.status(500).json({ error: 'Failed to verify email' });
+  }
+});
+
+router.post('/resend-verification', allowWithoutTwoFactor, requireAuth, async (req, res) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.user!.userId } });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (user.emailVerifiedAt) {
+      return res.status(400).json({ error: 'Email is already verified', code: 'EMAIL_ALREADY_VERIFIED' });
+    }
+
+    const latestToken = await prisma.emailVerificationToken.findFirst({
+      where: { userId: user.id },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (latestToken && Date.now() - latestToken.createdAt.getTime() < VERIFICATION_RESEND_COOLDOWN_SECONDS * 1000) {
+      return res.status(429).json({
+        error: 'Please wait before requesting another verification email',
+        code: 'VERIFICATION_RESEND_COOLDOWN',
+      });
+    }
+
+    await prisma.emailVerificationToken.updateMany({
+      where: { userId: user.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    await sendVerificationEmail(user.id, user.email);
+
+    return res.json({ message: 'Verification email sent' });
+  } catch (error) {
+    console.error('[Auth] Resend verification error:', error);
+    return res.status(500).json({ error: 'Failed to send verification email' });
+  }
+});
+
+type OidcUserResult =
+  | { status: 'ok'; user: User & { profile: Profile | null }; linked: boolean; created: boolean }
+  | { status: 'email_not_verified' }
+  | { status: 'link_required' };
+
+// Accounts that must link a provider explicitly (GET /oidc/:provider/link) rather
+// than by matching email: a provider vouching for the address isn't enough for them
+const EXPLICIT_LINK_ROLES = new Set<string>(['interpreter', 'admin', 'super_admin']);
+
+async function findOrCreateOidcUser(providerId: string, identity: OidcIdentity): Promise<OidcUserResult> {
+  const account = await prisma.oAuthAccount.findUnique({
+    where: { provider_subject: { provider: providerId, subject: identity.subject } },
+    include: { user: { include: { profile: true } } },
+  });
+
+  if (account) {
+    await prisma.oAuthAccount.update({
+      where: { id: account.id },
+      data: { lastLoginAt: new Date(), email: identity.email },
+    });
+    return { status: 'ok', user: account.user, linked: false, created: false };
+  }
+
+  // Linking and sign-up both rely on the provider having verified the address
+  if (!identity.email || !identity.emailVerified) {
+    return { status: 'email_not_verified' };
+  }
+
+  const email = identity.email;
+  const existingUser = await prisma.user.findUnique({
+    where: { email },
+    include: { profile: true },
+  });
+
+  if (existingUser) {
+    if (existingUser.profile && EXPLICIT_LINK_ROLES.has(existingUser.profile.role)) {
+      return { status: 'link_required' };
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.oAuthAccount.create({
+        data: {
+          userId: existingUser.id,
+          provider: providerId,
+          subject: identity.subject,
+          email,
+          lastLoginAt: new Date(),
+        },
+      });
+
+      // Whoever registered this unverified account never proved they own the
+      // address, so their password and sessions stop working once the real owner links it
+      if (!existingUser.emailVerifiedAt) {
+        await tx.user.update({
+          where: { id: existingUser.id },
+          data: {
+            emailVerifiedAt: new Date(),
+            password: await hashPassword(generateOpaqueToken()),
+            passwordChangedAt: new Date(),
+          },
+        });
+        await bumpTokenVersion(existingUser.id, tx);
+        await revokeUserSessions(existingUser.id, 'oidc_account_linked', { db: tx });
+
+        if (existingUser.profile?.role === 'dreamer') {
+          await assignTrialPlan(tx, existingUser.id);
+        }
+      }
+    });
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: existingUser.id },
+      include: { profile: true },
+    });
+
+    return { status: 'ok', user, linked: true, created: false };
+  }
+
+  // Social accounts have no password; a random one keeps the column filled
+  // until the user sets their own through forgot-password
+  const hashedPassword = await hashPassword(generateOpaqueToken());
+
+  const user = await prisma.$transaction(async (tx) => {
+    const createdUser = await tx.user.create({
+      data: {
+        email,
+        password: hashedPassword,
+        emailVerifiedAt: new Date(),
+      },
+    });
+
+    await tx.profile.create({
+      data: {
+        id: createdUser.id,
+        email,
+        fullName: identity.name?.trim() || email.split('@')[0],
+        role: 'dreamer',
+      },
+    });
+
+    await tx.oAuthAccount.create({
+      data: {
+        userId: createdUser.id,
+        provider: providerId,
+        subject: identity.subject,
+        email,
+        lastLoginAt: new Date(),
+      },
+    });
+
+    await assignTrialPlan(tx, createdUser.id);
+
+    return tx.user.findUniqueOrThrow({
+      where: { id: createdUser.id },
+      include: { profile: true },
+    });
+  });
+
+  return { status: 'ok', user, linked: false, created: true };
+}
+
+function setOidcStateCookie(res: Response, token: string) {
+  res.cookie(OIDC_STATE_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: 10 * 60 * 1000,
+    path: OIDC_COOKIE_PATH,
+  });
+}
+
+function clearOidcStateCookie(res: Response) {
+  res.cookie(OIDC_STATE_COOKIE_NAME, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    expires: new Date(0),
+    path: OIDC_COOKIE_PATH,
+  });
+}
+
+// Only same-site paths, so the callback can't be turned into an open redirect
+function safeRedirectPath(value: unknown) {
+  return typeof value === 'string' && value.startsWith('/') && !value.startsWith('//') ? value : undefined;
+}
+
+router.get('/oidc/providers', (_req, res) => {
+  return res.json({ providers: listOidcProviders() });
+});
+
+async function redirectToProvider(req: Request, res: Response, provider: OidcProvider, linkUserId?: string) {
+  const state: OidcLoginState = {
+    provider: provider.id,
+    state: generateOpaqueToken(16),
+    nonce: generateOpaqueToken(16),
+    codeVerifier: generateCodeVerifier(),
+    redirectTo: safeRedirectPath(req.query.redirectTo),
+    ...(linkUserId && { linkUserId }),
+  };
+
+  const authorizationUrl = await buildAuthorizationUrl(provider, {
+    ...state,
+    loginHint: typeof req.query.loginHint === 'string' ? req.query.loginHint : undefined,
+  });
+
+  setOidcStateCookie(res, generateOidcStateToken(state));
+
+  return res.redirect(302, authorizationUrl);
+}
+
+router.get('/oidc/:provider/start', async (req, res) => {
+  try {
+    const provider = getOidcProvider(req.params.provider);
+
+    if (!provider) {
+      return res.status(404).json({ error: 'Unknown login provider' });
+    }
+
+    return await redirectToProvider(req, res, provider);
+  } catch (error) {
+    console.error('[Auth] OIDC start error:', error);
+    return res.status(502).json({ error: 'Login provider is unavailable' });
+  }
+});
+
+// Link a provider to the signed-in account. Staff accounts can only be linked this way.
+router.get('/oidc/:provider/link', requireAuth, forbidImpersonation, async (req, res) => {
+  try {
+    const provider = getOidcProvider(req.params.provider);
+
+    if (!provider) {
+      return res.status(404).json({ error: 'Unknown login provider' });
+    }
+
+    if (req.user!.apiKey) {
+      return res.status(403).json({ error: 'Providers can only be linked from a signed-in session' });
+    }
+
+    return await redirectToProvider(req, res, provider, req.user!.userId);
+  } catch (error) {
+    console.error('[Auth] OIDC link start error:', error);
+    return res.status(502).json({ error: 'Login provider is unavailable' });
+  }
+});
+
+async function linkOidcAccount(
+  req: Request,
+  res: Response,
+  providerId: string,
+  identity: OidcIdentity,
+  stored: OidcLoginState
+) {
+  const done = (params: Record<string, string>) => {
+    clearOidcStateCookie(res);
+    return res.redirect(302, buildAppUrl(stored.redirectTo ?? '/auth/callback', params));
+  };
+
+  // The browser finishing the flow must still be signed in as the account that started it
+  if (!req.user || req.user.userId !== stored.linkUserId || req.user.impersonator) {
+    return done({ error: 'oidc_invalid_state' });
+  }
+
+  const existing = await prisma.oAuthAccount.findUnique({
+    where: { provider_subject: { provider: providerId, subject: identity.subject } },
+    select: { userId: true },
+  });
+
+  if (existing) {
+    return done(existing.userId === req.user.userId ? { linked: 'true' } : { error: 'oidc_account_in_use' });
+  }
+
+  await prisma.oAuthAccount.create({
+    data: {
+      userId: req.user.userId,
+      provider: providerId,
+      subject: identity.subject,
+      email: identity.email,
+      lastLoginAt: new Date(),
+    },
+  });
+
+  await recordSecurityEvent(req, {
+    type: 'oidc_account_linked',
+    userId: req.user.userId,
+    email: req.user.email,
+    details: { provider: providerId, explicit: true },
+  });
+
+  return done({ linked: 'true' });
+}
+
+// The provider redirects the browser here; the user ends up back in the web app either way
+router.get('/oidc/:provider/callback', optionalAuth, async (req, res) => {
+  const fail = (code: string) => {
+    clearOidcStateCookie(res);
+    return res.redirect(302, buildAppUrl('/login', { error: code }));
+  };
+
+  try {
+    const provider = getOidcProvider(req.params.provider);
+    const stored = verifyOidcStateToken(req.cookies?.[OIDC_STATE_COOKIE_NAME] ?? '');
+    const { code, state, error: providerError } = req.query as Record<string, string | undefined>;
+
+    if (!provider || !stored || stored.provider !== provider.id || !state || state !== stored.state) {
+      return fail('oidc_invalid_state');
+    }
+
+    if (providerError || !code) {
+      return fail('oidc_cancelled');
+    }
+
+    const identity = await exchangeOidcCode(provider, {
+      code,
+      codeVerifier: stored.codeVerifier,
+      nonce: stored.nonce,
+    });
+
+    if (stored.linkUserId) {
+      return await linkOidcAccount(req, res, provider.id, identity, stored);
+    }
+
+    const result = await findOrCreateOidcUser(provider.id, identity);
+
+    if (result.status === 'email_not_verified') {
+      return fail('oidc_email_not_verified');
+    }
+
+    if (result.status === 'link_required') {
+      return fail('oidc_link_required');
+    }
+
+    const { user } = result;
+
+    if (!user.profile) {
+      return fail('oidc_failed');
+    }
+
+    if (user.suspendedAt) {
+      return fail('account_suspended');
+    }
+
+    await recordSecurityEvent(req, {
+      type: result.created ? 'oidc_signup' : result.linked ? 'oidc_account_linked' : 'oidc_login',
+      userId: user.id,
+      email: user.email,
+      details: { provider: provider.id },
+    });
+
+    clearOidcStateCookie(res);
+
+    if (user.totpEnabledAt) {
+      return res.redirect(302, buildAppUrl('/auth/callback', {
+        twoFactorRequired: 'true',
+        challengeToken: generateChallengeToken(user.id),
+        ...(stored.redirectTo && { redirectTo: stored.redirectTo }),
+      }));
+    }
+
+    await startSession(req, res, {
+      id: user.id,
+      email: user.email,
+      role: user.profile.role,
+      tokenVersion: user.tokenVersion,
+    });
+
+    return res.redirect(302, buildAppUrl('/auth/callback', {
+      ...(stored.redirectTo && { redirectTo: stored.redirectTo }),
+      ...(result.created && { newUser: 'true' }),
+    }));
+  } catch (error) {
+    console.error('[Auth] OIDC callback error:', error);
+    return fail('oidc_failed');
+  }
+});
+
+router.get('/me', allowWithoutTwoFactor, requireAuth, async (req, res) => {
   try {
     const userId = req.user!.userId;
 
@@ -201,7 +1026,9 @@ router.get('/me', requireAuth, async (req, res) => {
         id: profile.user.id,
         email: profile.user.email,
         role: profile.role,
+        emailVerified: Boolean(profile.user.emailVerifiedAt),
       },
+      impersonatedBy: req.user!.impersonator ?? null,
       profile: {
         id: profile.id,
         email: profile.email,
@@ -232,6 +1059,9 @@ router.get('/me', requireAuth, async (req, res) => {
             expiresAt: activeSubscription.expiresAt?.toISOString() ?? null,
             lettersUsed: activeSubscription.lettersUsed,
             audioMinutesUsed: activeSubscription.audioMinutesUsed,
+            dreamsUsed: activeSubscription.dreamsUsed,
+            interpretationsUsed: activeSubscription.interpretationsUsed,
+            interpretationsRemaining: getInterpretationAllowance(activeSubscription).remaining,
             isTrial: activeSubscription.plan?.isTrial ?? false,
             plan: activeSubscription.plan
               ? {
@@ -241,6 +1071,8 @@ router.get('/me', requireAuth, async (req, res) => {
                 currency: activeSubscription.plan.currency,
                 letterQuota: activeSubscription.plan.letterQuota,
                 audioMinutesQuota: activeSubscription.plan.audioMinutesQuota,
+                maxInterpretations: activeSubscription.plan.maxInterpretations,
+                followUpRounds: activeSubscription.plan.followUpRounds,
                 durationDays: activeSubscription.plan.durationDays,
                 scope: activeSubscription.plan.scope,
                 isTrial: activeSubscription.plan.isTrial,
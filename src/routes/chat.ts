@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import prisma from '../lib/prisma';
 import { requireAuth } from '../middleware/auth';
+import { hasPermission } from '../utils/permissions';
 
 const router = Router();
 
@@ -24,13 +25,7 @@ router.get('/', requireAuth, async (req, res) => {
       return res.status(404).json({ error: 'Request not found' });
     }
 
-    const profile = await prisma.profile.findUnique({
-      where: { id: req.user!.userId },
-      select: { role: true },
-    });
-
-    const role = profile?.role;
-    const isSuperAdmin = role === 'super_admin';
+    const isSuperAdmin = await hasPermission(req.user!.role, 'requests:manage');
     const isParticipant =
       request.dreamerId === req.user!.userId || request.interpreterId === req.user!.userId;
 
@@ -87,13 +82,7 @@ router.post('/', requireAuth, async (req, res) => {
       return res.status(404).json({ error: 'Request not found' });
     }
 
-    const profile = await prisma.profile.findUnique({
-      where: { id: userId },
-      select: { role: true },
-    });
-
-    const role = profile?.role;
-    const isSuperAdmin = role === 'super_admin';
+    const isSuperAdmin = await hasPermission(req.user!.role, 'requests:manage');
     const isParticipant =
       request.dreamerId === userId || request.interpreterId === userId;
 
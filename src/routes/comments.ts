@@ -1,10 +1,33 @@
 import { Router } from 'express';
 import prisma from '../lib/prisma';
 import { requireAuth } from '../middleware/auth';
+import { hasPermission } from '../utils/permissions';
 
 const router = Router();
 
-router.get('/', async (req, res) => {
+/**
+ * The private comment thread on a dream, for its dreamer, its interpreter and
+ * staff who can read all dreams. Publishing a dream doesn't make it public;
+ * comments on the feed are a separate thread (see routes/feed.ts).
+ */
+async function canAccessComments(dreamId: string, user: { userId: string; role: string }) {
+  const dream = await prisma.dream.findUnique({
+    where: { id: dreamId },
+    select: { dreamerId: true, interpreterId: true },
+  });
+
+  if (!dream) {
+    return null;
+  }
+
+  return (
+    dream.dreamerId === user.userId ||
+    dream.interpreterId === user.userId ||
+    (await hasPermission(user.role, 'dreams:read_all'))
+  );
+}
+
+router.get('/', requireAuth, async (req, res) => {
   try {
     const dreamId = req.query.dream_id as string | undefined;
 
@@ -12,8 +35,18 @@ router.get('/', async (req, res) => {
       return res.status(400).json({ error: 'dream_id is required' });
     }
 
+    const allowed = await canAccessComments(dreamId, req.user!);
+
+    if (allowed === null) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    if (!allowed) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
     const comments = await prisma.comment.findMany({
-      where: { dreamId },
+      where: { dreamId, publicationId: null },
       include: {
         user: {
           select: {
@@ -43,6 +76,16 @@ router.post('/', requireAuth, async (req, res) => {
       return res.status(400).json({ error: 'dream_id and content are required' });
     }
 
+    const allowed = await canAccessComments(dream_id, req.user!);
+
+    if (allowed === null) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    if (!allowed) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
     const comment = await prisma.comment.create({
       data: {
         dreamId: dream_id,
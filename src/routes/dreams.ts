@@ -1,6 +1,45 @@
 import { Router } from 'express';
 import prisma from '../lib/prisma';
-import { requireAuth } from '../middleware/auth';
+import { AUTO_ASSIGN_STRATEGY, autoAssignDream } from '../lib/assignment';
+import { claimDream, releaseDreamClaim } from '../lib/dreamClaims';
+import { allowApiKey, requireAuth } from '../middleware/auth';
+import { hasPermission } from '../utils/permissions';
+import { buildPage, parsePageParams } from '../utils/pagination';
+import { buildSearchSnippets, parseSearchTerms, scoreDream, syncDreamSearchDocument } from '../utils/dreamSearch';
+import { DreamActor, checkTransition, getAllowedTransitions, recordDreamStatusChange } from '../utils/dreamStatus';
+import { computeDueAt, overdueDreamsWhere, withSlaStatus } from '../utils/sla';
+import { MAX_REVIEW_LENGTH, MAX_STARS, MIN_STARS, formatRating, recalculateInterpreterRating } from '../utils/ratings';
+import { formatRevision, recordInterpretationRevision } from '../utils/interpretationRevisions';
+import { MAX_FOLLOW_UP_LENGTH, formatFollowUp, getFollowUpAllowance } from '../utils/followUps';
+import {
+  MAX_REVIEW_NOTES_LENGTH,
+  REVIEW_DECISIONS,
+  canReviewDreams,
+  formatReview,
+  hideReviewFromDreamer,
+  isReviewDecision,
+  isReviewHiddenFrom,
+  reviewedRevisionsFilter,
+} from '../utils/review';
+import {
+  DREAM_CATEGORIES,
+  MAX_MASK_TERMS,
+  anonymizeDreamForPublishing,
+  formatPublication,
+  isDreamCategory,
+} from '../utils/publishing';
+import {
+  QuotaExceededError,
+  reserveExtraLetters,
+  chargeInterpretation,
+  checkInterpretationQuota,
+  findDreamSubscription,
+  refundDreamUsage,
+  refundInterpretation,
+  reserveDreamUsage,
+} from '../utils/quota';
+import { DreamStatus, Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
 import { writeFile } from 'fs/promises';
 import { existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
@@ -28,103 +67,177 @@ function countContentLetters(content: string) {
   return Array.from(content).length;
 }
 
-router.get('/', requireAuth, async (req, res) => {
-  try {
-    const userId = req.user!.userId;
+const DREAM_SORT_FIELDS = ['createdAt', 'updatedAt', 'status', 'dueAt'] as const;
+const DREAM_STATUSES = Object.values(DreamStatus);
 
-    const profile = await prisma.profile.findUnique({
-      where: { id: userId },
-      select: { role: true },
-    });
+const dreamListInclude = {
+  dreamer: {
+    select: {
+      id: true,
+      fullName: true,
+      email: true,
+      avatarUrl: true,
+    },
+  },
+  interpreter: {
+    select: {
+      id: true,
+      fullName: true,
+      email: true,
+      avatarUrl: true,
+    },
+  },
+} satisfies Prisma.DreamInclude;
 
-    if (!profile) {
-      return res.status(404).json({ error: 'Profile not found' });
-    }
+function isDreamSortField(value: unknown): value is (typeof DREAM_SORT_FIELDS)[number] {
+  return typeof value === 'string' && (DREAM_SORT_FIELDS as readonly string[]).includes(value);
+}
 
-    let dreams;
+function parseDateParam(value: unknown) {
+  if (typeof value !== 'string' || !value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
 
-    if (profile.role === 'dreamer') {
-      dreams = await prisma.dream.findMany({
-        where: { dreamerId: userId },
-        orderBy: { createdAt: 'desc' },
-        include: {
-          dreamer: {
-            select: {
-              id: true,
-              fullName: true,
-              email: true,
-              avatarUrl: true,
-            },
-          },
-          interpreter: {
-            select: {
-              id: true,
-              fullName: true,
-              email: true,
-              avatarUrl: true,
-            },
-          },
-        },
-      });
-    } else if (profile.role === 'interpreter') {
-      dreams = await prisma.dream.findMany({
-        where: {
-          OR: [{ interpreterId: userId }, { interpreterId: null }],
-        },
-        orderBy: { createdAt: 'desc' },
-        include: {
-          dreamer: {
-            select: {
-              id: true,
-              fullName: true,
-              email: true,
-              avatarUrl: true,
-            },
-          },
-          interpreter: {
-            select: {
-              id: true,
-              fullName: true,
-              email: true,
-              avatarUrl: true,
-            },
-          },
-        },
-      });
-    } else if (profile.role === 'admin' || profile.role === 'super_admin') {
-      dreams = await prisma.dream.findMany({
-        orderBy: { createdAt: 'desc' },
-        include: {
-          dreamer: {
-            select: {
-              id: true,
-              fullName: true,
-              email: true,
-              avatarUrl: true,
-            },
-          },
-          interpreter: {
-            select: {
-              id: true,
-              fullName: true,
-              email: true,
-              avatarUrl: true,
-            },
-          },
-        },
+/**
+ * Translate the list query string into a where clause. Visibility by role is
+ * applied by the caller; everything here only narrows the result further.
+ * With `hideReview`, pending_review dreams match pending_interpretation, the
+ * way dreamers see them.
+ */
+function parseDreamFilters(
+  query: Record<string, unknown>,
+  options: { hideReview?: boolean } = {}
+): Prisma.DreamWhereInput | { error: string } {
+  const filters: Prisma.DreamWhereInput[] = [];
+
+  if (typeof query.status === 'string' && query.status) {
+    const statuses = query.status.split(',').map((status) => status.trim());
+    if (!statuses.every((status): status is DreamStatus => (DREAM_STATUSES as string[]).includes(status))) {
+      return { error: `status must be one of: ${DREAM_STATUSES.join(', ')}` };
+    }
+    if (options.hideReview) {
+      const visible = statuses.filter((status) => status !== 'pending_review');
+      filters.push({
+        status: { in: visible.includes('pending_interpretation') ? [...visible, 'pending_review'] : visible },
       });
+    } else {
+      filters.push({ status: { in: statuses } });
+    }
+  }
+
+  if (typeof query.interpreterId === 'string' && query.interpreterId) {
+    filters.push({ interpreterId: query.interpreterId === 'unassigned' ? null : query.interpreterId });
+  }
+
+  if (typeof query.dreamerId === 'string' && query.dreamerId) {
+    filters.push({ dreamerId: query.dreamerId });
+  }
+
+  if (typeof query.mood === 'string' && query.mood) {
+    filters.push({ mood: query.mood });
+  }
+
+  if (query.hasAudio === 'true' || query.hasAudio === 'false') {
+    filters.push({ audioUrl: query.hasAudio === 'true' ? { not: null } : null });
+  }
+
+  if (query.overdue === 'true') {
+    filters.push(overdueDreamsWhere());
+  } else if (query.overdue === 'false') {
+    filters.push({ NOT: overdueDreamsWhere() });
+  }
+
+  const from = parseDateParam(query.from);
+  const to = parseDateParam(query.to);
+  if (from === null || to === null) {
+    return { error: 'from and to must be valid dates' };
+  }
+  if (from || to) {
+    filters.push({ createdAt: { ...(from && { gte: from }), ...(to && { lte: to }) } });
+  }
+
+  return { AND: filters };
+}
+
+// GET /api/dreams?status=new,returned&mood=&hasAudio=&from=&to=&sort=createdAt&order=desc&limit=20&cursor=
+// Interpreters can pass scope=mine or scope=unassigned; the default is both.
+router.get('/', allowApiKey('dreams:read'), requireAuth, async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const role = req.user!.role;
+    const canReadAll = await hasPermission(role, 'dreams:read_all');
+    const query = req.query as Record<string, unknown>;
+
+    let visibility: Prisma.DreamWhereInput;
+
+    if (canReadAll) {
+      visibility = {};
+    } else if (role === 'dreamer') {
+      visibility = { dreamerId: userId };
+    } else if (role === 'interpreter') {
+      const scope = query.scope ?? 'all';
+      if (scope === 'mine') {
+        visibility = { interpreterId: userId };
+      } else if (scope === 'unassigned') {
+        visibility = { interpreterId: null };
+      } else if (scope === 'all') {
+        visibility = { OR: [{ interpreterId: userId }, { interpreterId: null }] };
+      } else {
+        return res.status(400).json({ error: 'scope must be one of: all, mine, unassigned' });
+      }
     } else {
       return res.status(403).json({ error: 'Invalid role' });
     }
 
-    return res.json(dreams);
+    const filters = parseDreamFilters(query, { hideReview: !canReadAll && role === 'dreamer' });
+    if ('error' in filters) {
+      return res.status(400).json({ error: filters.error });
+    }
+
+    const page = parsePageParams(query);
+    if ('error' in page) {
+      return res.status(400).json({ error: page.error });
+    }
+
+    const sort = query.sort ?? 'createdAt';
+    const order = query.order ?? 'desc';
+    if (!isDreamSortField(sort) || (order !== 'asc' && order !== 'desc')) {
+      return res.status(400).json({
+        error: `sort must be one of: ${DREAM_SORT_FIELDS.join(', ')}; order must be asc or desc`,
+      });
+    }
+
+    const where: Prisma.DreamWhereInput = { AND: [visibility, filters] };
+
+    // id breaks ties so the cursor position is stable
+    const [rows, total] = await Promise.all([
+      prisma.dream.findMany({
+        where,
+        orderBy: [{ [sort]: order }, { id: order }],
+        take: page.limit + 1,
+        ...(page.cursor && { cursor: { id: page.cursor }, skip: 1 }),
+        include: dreamListInclude,
+      }),
+      prisma.dream.count({ where }),
+    ]);
+
+    const { items, nextCursor } = buildPage(rows, page.limit);
+
+    const now = new Date();
+
+    return res.json({
+      dreams: items.map((dream) => withSlaStatus(hideReviewFromDreamer(dream, userId), now)),
+      nextCursor,
+      total,
+    });
   } catch (error) {
     console.error('[Dreams] Fetch error:', error);
     return res.status(500).json({ error: 'Failed to fetch dreams' });
   }
 });
 
-router.post('/', requireAuth, async (req, res) => {
+router.post('/', allowApiKey('dreams:write'), requireAuth, async (req, res) => {
   try {
     const userId = req.user!.userId;
     const { title, description, dream_date, mood, audioMinutes, metadata } = req.body ?? {};
@@ -136,7 +249,7 @@ router.post('/', requireAuth, async (req, res) => {
     // Get user profile to check role
     const profile = await prisma.profile.findUnique({
       where: { id: userId },
-      select: { role: true },
+      select: { role: true, user: { select: { emailVerifiedAt: true } } },
     });
 
     if (!profile) {
@@ -144,12 +257,18 @@ router.post('/', requireAuth, async (req, res) => {
     }
 
     // Admin and super_admin bypass plan checks
-    const isAdmin = profile.role === 'admin' || profile.role === 'super_admin';
+    const isAdmin = await hasPermission(profile.role, 'plans:bypass_quota');
+
+    if (!isAdmin && !profile.user.emailVerifiedAt) {
+      return res.status(403).json({
+        error: 'Please verify your email address before submitting dreams',
+        code: 'EMAIL_NOT_VERIFIED',
+      });
+    }
 
-    let subscription: Awaited<ReturnType<typeof getActiveSubscription>> | undefined;
-    let plan: any;
-    let letterCount = countContentLetters(description);
-    let audioMinutesRequested = audioMinutes ? Math.ceil(Number(audioMinutes)) : 0;
+    const letterCount = countContentLetters(description);
+    const audioMinutesRequested = audioMinutes ? Math.ceil(Number(audioMinutes)) : 0;
+    let subscription: Awaited<ReturnType<typeof getActiveSubscription>> = null;
 
     if (!isAdmin) {
       // Regular users need active subscription
@@ -161,57 +280,30 @@ router.post('/', requireAuth, async (req, res) => {
           code: 'NO_ACTIVE_SUBSCRIPTION',
         });
       }
+    }
 
-      plan = subscription.plan;
-
-      // Check letter quota
-      if (
-        plan.letterQuota !== null &&
-        plan.letterQuota !== undefined &&
-        subscription.lettersUsed + letterCount > plan.letterQuota
-      ) {
-        return res.status(403).json({
-          error: `Letter quota exceeded for the current plan (${plan.letterQuota} characters)`,
-          code: 'QUOTA_EXCEEDED',
-        });
-      }
-
-      // Check audio minutes quota
-      if (
-        audioMinutesRequested > 0 &&
-        plan.audioMinutesQuota !== null &&
-        plan.audioMinutesQuota !== undefined &&
-        subscription.audioMinutesUsed + audioMinutesRequested > plan.audioMinutesQuota
-      ) {
-        return res.status(403).json({
-          error: `Audio minutes quota exceeded for the current plan (${plan.audioMinutesQuota} minutes)`,
-          code: 'AUDIO_QUOTA_EXCEEDED',
-        });
-      }
-
-      // Check max dreams
-      if (plan.maxDreams !== null && plan.maxDreams !== undefined) {
-        const dreamCount = await prisma.dream.count({
-          where: {
-            dreamerId: userId,
-            createdAt: {
-              gte: subscription.startedAt,
-            },
-          },
-        });
-
-        if (dreamCount >= plan.maxDreams) {
-          return res.status(403).json({
-            error: `Maximum dreams limit (${plan.maxDreams}) reached for your plan`,
-            code: 'MAX_DREAMS_REACHED',
-          });
+    // Generated up front so the usage ledger can point at the dream it reserves for
+    const dreamId = randomUUID();
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Reserve first so a dream is never created without its usage being counted
+      if (subscription) {
+        const reservation = await reserveDreamUsage(
+          tx,
+          subscription.id,
+          { letters: letterCount, audioMinutes: audioMinutesRequested },
+          { userId, reason: 'dream_submitted', sourceType: 'dream', sourceId: dreamId }
+        );
+        if (!reservation.reserved) {
+          return { created: false as const, quotaError: reservation };
         }
       }
-    }
 
-    const dream = await prisma.$transaction(async (tx) => {
+      const now = new Date();
+
       const createdDream = await tx.dream.create({
         data: {
+          id: dreamId,
           dreamerId: userId,
           title,
           content: description, // Required field
@@ -220,6 +312,13 @@ router.post('/', requireAuth, async (req, res) => {
           mood,
           status: 'new',
           metadata: metadata || {},
+          userPlanId: subscription?.id ?? null,
+          dueAt: computeDueAt(now, subscription?.plan.slaHours),
+          ...(subscription && {
+            lettersCharged: letterCount,
+            audioMinutesCharged: audioMinutesRequested,
+            usageChargedAt: now,
+          }),
         },
         include: {
           dreamer: {
@@ -233,23 +332,42 @@ router.post('/', requireAuth, async (req, res) => {
         },
       });
 
-      const usageUpdateData: Record<string, unknown> = {
-        lettersUsed: { increment: letterCount },
-      };
-
-      if (audioMinutesRequested > 0) {
-        usageUpdateData.audioMinutesUsed = { increment: audioMinutesRequested };
-      }
-
-      await tx.userPlan.update({
-        where: { id: subscription.id },
-        data: usageUpdateData,
+      await syncDreamSearchDocument(createdDream, tx);
+      await recordDreamStatusChange(tx, {
+        dreamId: createdDream.id,
+        fromStatus: null,
+        toStatus: 'new',
+        changedById: userId,
       });
 
-      return createdDream;
+      return { created: true as const, dream: createdDream };
     });
 
-    return res.status(201).json(dream);
+    if (!result.created) {
+      return res.status(403).json({ error: result.quotaError.error, code: result.quotaError.code });
+    }
+
+    const { dream } = result;
+
+    // Assignment is best effort: an unassigned dream stays in the queue for an admin
+    if (AUTO_ASSIGN_STRATEGY !== 'off') {
+      try {
+        const assignment = await autoAssignDream(dream.id);
+        if (assignment.status === 'assigned') {
+          return res.status(201).json(
+            withSlaStatus({
+              ...dream,
+              status: 'pending_interpretation' as const,
+              interpreterId: assignment.interpreterId,
+            })
+          );
+        }
+      } catch (error) {
+        console.error('[Dreams] Auto-assign error:', error);
+      }
+    }
+
+    return res.status(201).json(withSlaStatus(dream));
   } catch (error) {
     console.error('[Dreams] Create error:', error);
     return res.status(500).json({ error: 'Failed to create dream' });
@@ -257,7 +375,7 @@ router.post('/', requireAuth, async (req, res) => {
 });
 
 // Upload voice recording for dream
-router.post('/:id/audio', requireAuth, async (req, res) => {
+router.post('/:id/audio', allowApiKey('dreams:write'), requireAuth, async (req, res) => {
   try {
     const { audio, duration } = req.body;
 
@@ -270,6 +388,20 @@ router.post('/:id/audio', requireAuth, async (req, res) => {
       return res.status(400).json({ error: 'Invalid audio format' });
     }
 
+    const existing = await prisma.dream.findUnique({
+      where: { id: req.params.id },
+      select: { dreamerId: true },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    // Also what keeps an API key from attaching audio to someone else's dream
+    if (existing.dreamerId !== req.user!.userId) {
+      return res.status(403).json({ error: 'Only the dreamer can upload audio for this dream' });
+    }
+
     const audioType = matches[1]; // 'webm', 'mp3', 'm4a', etc.
     const base64Data = matches[2];
     const buffer = Buffer.from(base64Data, 'base64');
@@ -302,39 +434,109 @@ router.post('/:id/audio', requireAuth, async (req, res) => {
   }
 });
 
-router.get('/stats', requireAuth, async (req, res) => {
+const SEARCH_CANDIDATE_LIMIT = 500;
+
+// GET /api/dreams/search?q=...&status=&limit=&offset=
+// Ranked in memory over at most SEARCH_CANDIDATE_LIMIT of the newest matching dreams
+router.get('/search', allowApiKey('dreams:read'), requireAuth, async (req, res) => {
   try {
     const userId = req.user!.userId;
+    const query = req.query as Record<string, unknown>;
+    const q = typeof query.q === 'string' ? query.q.trim() : '';
+    const terms = parseSearchTerms(q);
 
-    const profile = await prisma.profile.findUnique({
-      where: { id: userId },
-      select: { role: true },
-    });
+    if (terms.length === 0) {
+      return res.status(400).json({ error: 'q must contain at least one word of two or more letters' });
+    }
 
-    if (!profile) {
-      return res.status(404).json({ error: 'Profile not found' });
+    const limit = query.limit === undefined ? 20 : Number(query.limit);
+    const offset = query.offset === undefined ? 0 : Number(query.offset);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > 100 || !Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({ error: 'limit must be between 1 and 100 and offset must be 0 or more' });
+    }
+
+    // Same access rule as GET /api/dreams/:id
+    const canReadAll = await hasPermission(req.user!.role, 'dreams:read_all');
+    const visibility: Prisma.DreamWhereInput = canReadAll
+      ? {}
+      : { OR: [{ dreamerId: userId }, { interpreterId: userId }] };
+
+    const filters = parseDreamFilters({ status: query.status }, { hideReview: !canReadAll });
+    if ('error' in filters) {
+      return res.status(400).json({ error: filters.error });
     }
 
+    const candidates = await prisma.dream.findMany({
+      where: {
+        AND: [
+          visibility,
+          filters,
+          { OR: terms.map((term) => ({ searchDocument: { is: { text: { contains: term } } } })) },
+        ],
+      },
+      orderBy: { createdAt: 'desc' },
+      take: SEARCH_CANDIDATE_LIMIT,
+      include: dreamListInclude,
+    });
+
+    // Text still in review isn't searchable by the dreamer
+    const ranked = candidates
+      .map((candidate) => hideReviewFromDreamer(candidate, userId))
+      .map((dream) => ({ dream, score: scoreDream(dream, terms) }))
+      .filter((result) => result.score > 0)
+      .sort((a, b) => b.score - a.score || b.dream.createdAt.getTime() - a.dream.createdAt.getTime());
+
+    const results = ranked.slice(offset, offset + limit).map(({ dream, score }) => ({
+      dream: withSlaStatus(dream),
+      score: Math.round(score * 100) / 100,
+      snippets: buildSearchSnippets(dream, terms),
+    }));
+
+    return res.json({
+      results,
+      total: ranked.length,
+      terms,
+      truncated: candidates.length === SEARCH_CANDIDATE_LIMIT,
+    });
+  } catch (error) {
+    console.error('[Dreams] Search error:', error);
+    return res.status(500).json({ error: 'Failed to search dreams' });
+  }
+});
+
+router.get('/stats', allowApiKey('dreams:read'), requireAuth, async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const role = req.user!.role;
+
     let where: Record<string, unknown> = {};
+    let hideReview = false;
 
-    if (profile.role === 'interpreter') {
+    if (await hasPermission(role, 'dreams:read_all')) {
+      where = {};
+    } else if (role === 'interpreter') {
       where = {
         OR: [{ interpreterId: userId }, { interpreterId: null }],
       };
-    } else if (profile.role === 'dreamer') {
+    } else {
       where = { dreamerId: userId };
+      hideReview = true;
     }
 
-    const dreams = await prisma.dream.findMany({
-      where,
-      select: { status: true },
-    });
+    const dreams = (
+      await prisma.dream.findMany({
+        where,
+        select: { status: true },
+      })
+    ).map((dream) => (hideReview && dream.status === 'pending_review' ? { status: 'pending_interpretation' } : dream));
 
     const stats = {
       total: dreams.length,
       new: dreams.filter((d) => d.status === 'new').length,
       pending_inquiry: dreams.filter((d) => d.status === 'pending_inquiry').length,
       pending_interpretation: dreams.filter((d) => d.status === 'pending_interpretation').length,
+      pending_review: dreams.filter((d) => d.status === 'pending_review').length,
       interpreted: dreams.filter((d) => d.status === 'interpreted').length,
       returned: dreams.filter((d) => d.status === 'returned').length,
     };
@@ -346,7 +548,45 @@ router.get('/stats', requireAuth, async (req, res) => {
   }
 });
 
-router.get('/:id', requireAuth, async (req, res) => {
+// Interpretations waiting for a reviewer, longest-waiting first. A reviewer's
+// own interpretations are left for someone else.
+router.get('/review-queue', requireAuth, async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+
+    if (!(await canReviewDreams(userId, req.user!.role))) {
+      return res.status(403).json({ error: 'Only reviewers can see the review queue' });
+    }
+
+    const page = parsePageParams(req.query as Record<string, unknown>);
+    if ('error' in page) {
+      return res.status(400).json({ error: page.error });
+    }
+
+    const where: Prisma.DreamWhereInput = { status: 'pending_review', NOT: { interpreterId: userId } };
+
+    const [rows, total] = await Promise.all([
+      prisma.dream.findMany({
+        where,
+        orderBy: [{ reviewRequestedAt: 'asc' }, { id: 'asc' }],
+        take: page.limit + 1,
+        ...(page.cursor && { cursor: { id: page.cursor }, skip: 1 }),
+        include: dreamListInclude,
+      }),
+      prisma.dream.count({ where }),
+    ]);
+
+    const { items, nextCursor } = buildPage(rows, page.limit);
+    const now = new Date();
+
+    return res.json({ dreams: items.map((dream) => withSlaStatus(dream, now)), nextCursor, total });
+  } catch (error) {
+    console.error('[Dreams] Review queue error:', error);
+    return res.status(500).json({ error: 'Failed to fetch review queue' });
+  }
+});
+
+router.get('/:id', allowApiKey('dreams:read'), requireAuth, async (req, res) => {
   try {
     const { id } = req.params;
     const userId = req.user!.userId;
@@ -377,33 +617,43 @@ router.get('/:id', requireAuth, async (req, res) => {
       return res.status(404).json({ error: 'Dream not found' });
     }
 
-    const profile = await prisma.profile.findUnique({
-      where: { id: userId },
-      select: { role: true },
-    });
-
-    const isAdmin = profile?.role === 'admin' || profile?.role === 'super_admin';
     const hasAccess =
       dream.dreamerId === userId ||
       dream.interpreterId === userId ||
-      isAdmin;
+      (await hasPermission(req.user!.role, 'dreams:read_all')) ||
+      (dream.status === 'pending_review' && (await canReviewDreams(userId, req.user!.role)));
 
     if (!hasAccess) {
       return res.status(403).json({ error: 'Forbidden' });
     }
 
-    return res.json(dream);
+    return res.json(withSlaStatus(hideReviewFromDreamer(dream, userId)));
   } catch (error) {
     console.error('[Dreams] Fetch single error:', error);
     return res.status(500).json({ error: 'Failed to fetch dream' });
   }
 });
 
+function dreamActors(
+  dream: { dreamerId: string; interpreterId: string | null },
+  userId: string,
+  permissions: { canManage: boolean; canAssign: boolean; canReview?: boolean }
+): DreamActor[] {
+  const actors: DreamActor[] = [];
+  if (dream.dreamerId === userId) actors.push('dreamer');
+  if (dream.interpreterId === userId) actors.push('interpreter');
+  if (permissions.canAssign) actors.push('assigner');
+  if (permissions.canManage) actors.push('manager');
+  // Nobody reviews their own interpretation
+  if (permissions.canReview && dream.interpreterId !== userId) actors.push('reviewer');
+  return actors;
+}
+
 router.patch('/:id', requireAuth, async (req, res) => {
   try {
     const { id } = req.params;
     const userId = req.user!.userId;
-    const { status, interpretation, notes, interpreter_id } = req.body ?? {};
+    const { status, interpretation, notes, interpreter_id, reason } = req.body ?? {};
 
     const dream = await prisma.dream.findUnique({ where: { id } });
 
@@ -411,102 +661,1345 @@ router.patch('/:id', requireAuth, async (req, res) => {
       return res.status(404).json({ error: 'Dream not found' });
     }
 
-    const profile = await prisma.profile.findUnique({
-      where: { id: userId },
-      select: { role: true },
-    });
-
-    const role = profile?.role;
-    const isSuperAdmin = role === 'super_admin';
-    const isAdmin = role === 'admin';
-    const isInterpreter = role === 'interpreter' && dream.interpreterId === userId;
-    const isDreamer = role === 'dreamer' && dream.dreamerId === userId;
+    const role = req.user!.role;
+    const canManage = await hasPermission(role, 'dreams:manage');
+    const canAssign = await hasPermission(role, 'dreams:assign');
+    const actors = dreamActors(dream, userId, { canManage, canAssign });
+    const isInterpreter = actors.includes('interpreter');
+    const isDreamer = actors.includes('dreamer');
 
-    const canModifyContent = isSuperAdmin || isInterpreter || isDreamer;
-
-    if (!canModifyContent && !isAdmin) {
+    if (actors.length === 0) {
       return res.status(403).json({ error: 'Forbidden' });
     }
 
-    const updateData: Record<string, unknown> = {};
-    if (status) {
-      if (!canModifyContent && !isSuperAdmin) {
-        return res.status(403).json({ error: 'Only the assigned interpreter, dreamer, or super admin can update status' });
-      }
-      updateData.status = status;
-    }
+    const updateData: Prisma.DreamUncheckedUpdateInput = {};
+
+    // Interpreters with Profile.requiresReview can't deliver to the dreamer themselves
+    const requiresReview =
+      isInterpreter &&
+      !canManage &&
+      Boolean((await prisma.profile.findUnique({ where: { id: userId }, select: { requiresReview: true } }))?.requiresReview);
+
     if (interpretation) {
-      if (!isSuperAdmin && !isInterpreter) {
+      if (!canManage && !isInterpreter) {
         return res.status(403).json({ error: 'Only the assigned interpreter or super admin can add interpretation' });
       }
+      if (dream.status === 'pending_review') {
+        return res.status(409).json({
+          error: 'This interpretation is waiting for review; reviewers can edit it when they review it',
+          code: 'DREAM_IN_REVIEW',
+        });
+      }
+      if (dream.status === 'interpreted' && requiresReview) {
+        return res.status(409).json({
+          error: 'Your changes to a delivered interpretation need review; ask an admin to reopen the dream',
+          code: 'REVIEW_REQUIRED',
+        });
+      }
       updateData.interpretation = interpretation;
+      // Interpretation work or any status change settles a claim (see POST /:id/claim)
+      updateData.claimExpiresAt = null;
     }
     if (notes) {
-      if (!canModifyContent && !isSuperAdmin) {
-        return res.status(403).json({ error: 'Forbidden' });
+      // The description is the dreamer's own account of the dream; interpreters can't rewrite it
+      if (!canManage && !isDreamer) {
+        return res.status(403).json({ error: 'Only the dreamer or an admin can edit the dream description' });
       }
-      updateData.notes = notes;
+      if (typeof notes !== 'string') {
+        return res.status(400).json({ error: 'notes must be a string' });
+      }
+      updateData.description = notes;
     }
+
+    let nextStatus: DreamStatus | null = null;
+
     if (interpreter_id) {
-      if (!isAdmin && !isSuperAdmin) {
+      if (!canAssign) {
         return res.status(403).json({ error: 'Only admins can assign interpreters' });
       }
       updateData.interpreterId = interpreter_id;
-      if (!updateData.status) {
-        updateData.status = 'pending_interpretation';
+      // A manual assignment replaces any pending claim
+      updateData.claimedAt = null;
+      updateData.claimExpiresAt = null;
+      if (dream.status === 'new') {
+        nextStatus = 'pending_interpretation';
       }
     }
 
-    if (Object.keys(updateData).length === 0) {
-      return res.status(400).json({ error: 'No valid updates provided' });
+    if (status) {
+      if (!(DREAM_STATUSES as string[]).includes(status)) {
+        return res.status(400).json({ error: `status must be one of: ${DREAM_STATUSES.join(', ')}` });
+      }
+      nextStatus = status as DreamStatus;
     }
 
-    const updatedDream = await prisma.dream.update({
-      where: { id },
-      data: updateData,
-      include: {
-        dreamer: {
-          select: {
-            id: true,
-            fullName: true,
-            email: true,
-            avatarUrl: true,
-          },
-        },
-        interpreter: {
-          select: {
-            id: true,
-            fullName: true,
-            email: true,
-            avatarUrl: true,
-          },
-        },
-      },
-    });
+    if (nextStatus === dream.status) {
+      nextStatus = null;
+    }
 
-    return res.json(updatedDream);
-  } catch (error) {
-    console.error('[Dreams] Update error:', error);
-    return res.status(500).json({ error: 'Failed to update dream' });
-  }
-});
+    if (nextStatus === 'interpreted' && dream.status === 'pending_interpretation' && requiresReview) {
+      nextStatus = 'pending_review';
+    }
 
-router.delete('/:id', requireAuth, async (req, res) => {
-  try {
-    const { id } = req.params;
-    const userId = req.user!.userId;
+    if (nextStatus) {
+      const check = checkTransition(dream.status, nextStatus, actors, {
+        interpreterId: interpreter_id || dream.interpreterId,
+        interpretation: interpretation || dream.interpretation,
+        reason: typeof reason === 'string' ? reason : null,
+      });
 
-    const dream = await prisma.dream.findUnique({ where: { id } });
+      if (!check.allowed) {
+        return res.status(check.status).json({
+          error: check.error,
+          code: check.code,
+          allowedTransitions: getAllowedTransitions(dream.status, actors),
+        });
+      }
 
-    if (!dream) {
-      return res.status(404).json({ error: 'Dream not found' });
+      updateData.status = nextStatus;
+      updateData.claimExpiresAt = null;
+      // Response time for SLA reports; cleared again if the dream is reopened
+      if (nextStatus === 'interpreted') {
+        updateData.interpretedAt = new Date();
+      } else if (dream.status === 'interpreted') {
+        updateData.interpretedAt = null;
+      }
+      if (nextStatus === 'pending_review') {
+        updateData.reviewRequestedAt = new Date();
+      }
     }
 
-    if (dream.dreamerId !== userId) {
-      return res.status(403).json({ error: 'Forbidden' });
+    if (Object.keys(updateData).length === 0) {
+      return res.status(400).json({ error: 'No valid updates provided' });
+    }
+
+    // Plan.maxInterpretations is checked on assignment and charged on interpretation
+    let quota: Awaited<ReturnType<typeof checkInterpretationQuota>> | null = null;
+
+    if (updateData.interpreterId !== undefined || nextStatus === 'interpreted') {
+      quota = await checkInterpretationQuota(dream);
+      if (!quota.allowed) {
+        return res.status(403).json({ error: quota.error, code: quota.code, limit: quota.limit });
+      }
+      if (nextStatus === 'interpreted' && quota.subscriptionId && !dream.userPlanId) {
+        // Older dreams weren't linked to a subscription; pin the one we charge
+        updateData.userPlanId = quota.subscriptionId;
+      }
     }
 
-    await prisma.dream.delete({ where: { id } });
+    // Returning a dream refunds its usage, so resubmitting it reserves usage again
+    let resubmission: { subscriptionId: string; letters: number; audioMinutes: number } | null = null;
+
+    if (dream.status === 'returned' && nextStatus === 'new' && dream.userPlanId) {
+      const subscription = await getActiveSubscription(dream.dreamerId);
+      if (!subscription) {
+        return res.status(402).json({
+          error: 'Active subscription required',
+          code: 'NO_ACTIVE_SUBSCRIPTION',
+        });
+      }
+
+      resubmission = {
+        subscriptionId: subscription.id,
+        letters: countContentLetters(notes || dream.description || dream.content),
+        audioMinutes: dream.audioMinutesCharged,
+      };
+      updateData.userPlanId = subscription.id;
+      updateData.lettersCharged = resubmission.letters;
+      updateData.usageChargedAt = new Date();
+      // The response deadline starts over, and a late resubmission can be escalated again
+      updateData.dueAt = computeDueAt(new Date(), subscription.plan.slaHours);
+      updateData.escalatedAt = null;
+    }
+
+    // A longer description on a dream that is already charged takes the extra letters
+    // from the same subscription; a shorter one keeps what was charged
+    let extraLetters = 0;
+
+    if (updateData.description !== undefined && !resubmission && dream.usageChargedAt && dream.userPlanId) {
+      const letters = countContentLetters(notes);
+      if (letters > dream.lettersCharged) {
+        extraLetters = letters - dream.lettersCharged;
+        updateData.lettersCharged = letters;
+      }
+    }
+
+    const interpretationChanged =
+      typeof updateData.interpretation === 'string' && updateData.interpretation !== dream.interpretation;
+
+    const updatedDream = await prisma.$transaction(async (tx) => {
+      // Guard on the status we validated against so concurrent changes can't skip a step,
+      // on the interpretation so two edits can't both become the next revision, and on
+      // the letters charged so two edits can't both charge against the old count
+      const { count } = await tx.dream.updateMany({
+        where: {
+          id,
+          status: dream.status,
+          ...(interpretationChanged && { interpretation: dream.interpretation }),
+          ...(extraLetters > 0 && { lettersCharged: dream.lettersCharged }),
+        },
+        data: updateData,
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      if (extraLetters > 0) {
+        const reservation = await reserveExtraLetters(tx, dream.userPlanId!, extraLetters, {
+          userId: dream.dreamerId,
+          reason: 'dream_edited',
+          sourceType: 'dream',
+          sourceId: id,
+        });
+        if (!reservation.reserved) {
+          throw new QuotaExceededError(reservation.code, reservation.error, reservation.limit);
+        }
+      }
+
+      if (interpretationChanged) {
+        await recordInterpretationRevision(tx, {
+          dreamId: id,
+          authorId: userId,
+          previous: dream.interpretation,
+          interpretation,
+        });
+      }
+
+      if (nextStatus === 'interpreted' && quota?.allowed && quota.subscriptionId) {
+        const charged = await chargeInterpretation(tx, quota.subscriptionId, quota.limit, {
+          userId: dream.dreamerId,
+          reason: 'dream_interpreted',
+          sourceType: 'dream',
+          sourceId: id,
+        });
+        if (!charged) {
+          throw new QuotaExceededError(
+            'INTERPRETATION_QUOTA_EXCEEDED',
+            `Interpretation limit (${quota.limit}) reached for the dreamer's plan`,
+            quota.limit
+          );
+        }
+      } else if (nextStatus && dream.status === 'interpreted') {
+        const subscription = await findDreamSubscription(dream, tx);
+        if (subscription) {
+          // interpretedAt is when the interpretation was charged
+          await refundInterpretation(tx, subscription, dream.interpretedAt, {
+            userId: dream.dreamerId,
+            reason: 'dream_reopened',
+            sourceType: 'dream',
+            sourceId: id,
+          });
+        }
+      }
+
+      // Credit the interpreter who delivered it; take it back if the dream is reopened
+      const interpreterId = (updateData.interpreterId as string | undefined) ?? dream.interpreterId;
+      if (nextStatus === 'interpreted' && interpreterId) {
+        await tx.profile.update({
+          where: { id: interpreterId },
+          data: { totalInterpretations: { increment: 1 } },
+        });
+      } else if (nextStatus && dream.status === 'interpreted' && dream.interpreterId) {
+        await tx.profile.updateMany({
+          where: { id: dream.interpreterId, totalInterpretations: { gt: 0 } },
+          data: { totalInterpretations: { decrement: 1 } },
+        });
+      }
+
+      // A shared copy carries the interpretation being reopened; take it off the feed
+      // and out of the queue until the dreamer opts in again with the new one
+      if (nextStatus && dream.status === 'interpreted') {
+        await tx.publishedDream.updateMany({
+          where: { dreamId: id, status: { not: 'withdrawn' } },
+          data: { status: 'withdrawn', publishedAt: null },
+        });
+      }
+
+      if (resubmission) {
+        const reservation = await reserveDreamUsage(tx, resubmission.subscriptionId, resubmission, {
+          userId: dream.dreamerId,
+          reason: 'dream_resubmitted',
+          sourceType: 'dream',
+          sourceId: id,
+        });
+        if (!reservation.reserved) {
+          throw new QuotaExceededError(reservation.code, reservation.error, reservation.limit);
+        }
+      } else if (nextStatus === 'returned') {
+        await refundDreamUsage(tx, dream, {
+          userId: dream.dreamerId,
+          reason: 'dream_returned',
+          sourceType: 'dream',
+          sourceId: id,
+        });
+      }
+
+      if (nextStatus) {
+        await recordDreamStatusChange(tx, {
+          dreamId: id,
+          fromStatus: dream.status,
+          toStatus: nextStatus,
+          changedById: userId,
+          reason: typeof reason === 'string' ? reason : null,
+        });
+      }
+
+      return tx.dream.findUniqueOrThrow({ where: { id }, include: dreamListInclude });
+    });
+
+    if (!updatedDream) {
+      return res.status(409).json({
+        error: 'The dream was changed by someone else, reload and try again',
+        code: 'DREAM_STATUS_CONFLICT',
+      });
+    }
+
+    if (updateData.interpretation !== undefined || updateData.description !== undefined) {
+      await syncDreamSearchDocument(updatedDream);
+    }
+
+    return res.json(withSlaStatus(hideReviewFromDreamer(updatedDream, userId)));
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return res.status(403).json({ error: error.message, code: error.code, limit: error.limit });
+    }
+    console.error('[Dreams] Update error:', error);
+    return res.status(500).json({ error: 'Failed to update dream' });
+  }
+});
+
+// Interpreters take a dream from the unassigned queue. The claim lapses after
+// DREAM_CLAIM_TTL_MINUTES unless they interpret it or send an inquiry first.
+router.post('/:id/claim', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    if (!(await hasPermission(req.user!.role, 'dreams:claim'))) {
+      return res.status(403).json({ error: 'Only interpreters can claim dreams' });
+    }
+
+    const dream = await prisma.dream.findUnique({ where: { id }, select: { id: true } });
+
+    if (!dream) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    const result = await claimDream(id, userId);
+
+    if (result.status === 'unavailable') {
+      return res.status(403).json({
+        error: 'Mark yourself as available before claiming dreams',
+        code: 'INTERPRETER_UNAVAILABLE',
+      });
+    }
+    if (result.status === 'at_capacity') {
+      return res.status(409).json({
+        error: `You already have ${result.capacity} open dreams`,
+        code: 'INTERPRETER_AT_CAPACITY',
+      });
+    }
+    if (result.status === 'already_claimed') {
+      return res.status(409).json({
+        error: 'This dream has already been taken',
+        code: 'DREAM_ALREADY_CLAIMED',
+      });
+    }
+    if (result.status === 'quota_exceeded') {
+      return res.status(403).json({
+        error: `Interpretation limit (${result.limit}) reached for the dreamer's plan`,
+        code: 'INTERPRETATION_QUOTA_EXCEEDED',
+        limit: result.limit,
+      });
+    }
+
+    const claimedDream = await prisma.dream.findUniqueOrThrow({ where: { id }, include: dreamListInclude });
+
+    return res.json(claimedDream);
+  } catch (error) {
+    console.error('[Dreams] Claim error:', error);
+    return res.status(500).json({ error: 'Failed to claim dream' });
+  }
+});
+
+router.post('/:id/release', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    const { reason } = req.body ?? {};
+
+    if (reason !== undefined && typeof reason !== 'string') {
+      return res.status(400).json({ error: 'reason must be a string' });
+    }
+
+    const dream = await prisma.dream.findUnique({ where: { id }, select: { id: true } });
+
+    if (!dream) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    const released = await releaseDreamClaim(id, userId, reason);
+
+    if (!released) {
+      return res.status(409).json({
+        error: 'You have no open claim on this dream',
+        code: 'NO_ACTIVE_CLAIM',
+      });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('[Dreams] Release claim error:', error);
+    return res.status(500).json({ error: 'Failed to release dream' });
+  }
+});
+
+const reviewInclude = {
+  interpreter: { select: { id: true, fullName: true } },
+  reviewer: { select: { id: true, fullName: true } },
+} as const;
+
+// A reviewer approves an interpretation in pending_review (optionally with
+// their own edits), delivering it to the dreamer, or sends it back to the
+// interpreter with notes. Every decision is kept as an InterpretationReview.
+router.post('/:id/review', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    const role = req.user!.role;
+    const { decision: requestedDecision, interpretation, notes } = req.body ?? {};
+
+    if (!isReviewDecision(requestedDecision)) {
+      return res.status(400).json({ error: `decision must be one of: ${REVIEW_DECISIONS.join(', ')}` });
+    }
+
+    if (notes !== undefined && notes !== null && typeof notes !== 'string') {
+      return res.status(400).json({ error: 'notes must be a string' });
+    }
+
+    const reviewNotes = typeof notes === 'string' && notes.trim() ? notes.trim() : null;
+
+    if (reviewNotes && reviewNotes.length > MAX_REVIEW_NOTES_LENGTH) {
+      return res.status(400).json({ error: `notes must be at most ${MAX_REVIEW_NOTES_LENGTH} characters` });
+    }
+
+    if (requestedDecision === 'edited' && (typeof interpretation !== 'string' || !interpretation.trim())) {
+      return res.status(400).json({ error: 'interpretation is required when editing' });
+    }
+
+    const dream = await prisma.dream.findUnique({ where: { id } });
+
+    if (!dream) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    const actors = dreamActors(dream, userId, {
+      canManage: await hasPermission(role, 'dreams:manage'),
+      canAssign: await hasPermission(role, 'dreams:assign'),
+      canReview: await canReviewDreams(userId, role),
+    });
+
+    if (!actors.includes('reviewer')) {
+      return res.status(403).json({ error: 'Only a reviewer other than the interpreter can review this interpretation' });
+    }
+
+    if (dream.status !== 'pending_review' || !dream.interpreterId) {
+      return res.status(409).json({
+        error: 'This dream has no interpretation waiting for review',
+        code: 'DREAM_NOT_IN_REVIEW',
+      });
+    }
+
+    const interpreterId = dream.interpreterId;
+    // An "edit" that changes nothing is an approval
+    const decision =
+      requestedDecision === 'edited' && interpretation === dream.interpretation ? 'approved' : requestedDecision;
+    const nextStatus: DreamStatus = decision === 'sent_back' ? 'pending_interpretation' : 'interpreted';
+    const nextInterpretation = decision === 'edited' ? (interpretation as string) : dream.interpretation;
+
+    const check = checkTransition(dream.status, nextStatus, actors, {
+      interpreterId,
+      interpretation: nextInterpretation,
+      reason: reviewNotes,
+    });
+
+    if (!check.allowed) {
+      return res.status(check.status).json({ error: check.error, code: check.code });
+    }
+
+    const updateData: Prisma.DreamUncheckedUpdateInput = { status: nextStatus };
+    let quota: Awaited<ReturnType<typeof checkInterpretationQuota>> | null = null;
+
+    if (nextStatus === 'interpreted') {
+      quota = await checkInterpretationQuota(dream);
+      if (!quota.allowed) {
+        return res.status(403).json({ error: quota.error, code: quota.code, limit: quota.limit });
+      }
+      if (quota.subscriptionId && !dream.userPlanId) {
+        updateData.userPlanId = quota.subscriptionId;
+      }
+      updateData.interpretedAt = new Date();
+      if (decision === 'edited') {
+        updateData.interpretation = nextInterpretation;
+      }
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.dream.updateMany({
+        where: { id, status: 'pending_review' },
+        data: updateData,
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      if (decision === 'edited') {
+        await recordInterpretationRevision(tx, {
+          dreamId: id,
+          authorId: userId,
+          previous: dream.interpretation,
+          interpretation: nextInterpretation!,
+        });
+      }
+
+      if (nextStatus === 'interpreted') {
+        if (quota?.allowed && quota.subscriptionId) {
+          const charged = await chargeInterpretation(tx, quota.subscriptionId, quota.limit, {
+            userId: dream.dreamerId,
+            reason: 'dream_interpreted',
+            sourceType: 'dream',
+            sourceId: id,
+          });
+          if (!charged) {
+            throw new QuotaExceededError(
+              'INTERPRETATION_QUOTA_EXCEEDED',
+              `Interpretation limit (${quota.limit}) reached for the dreamer's plan`,
+              quota.limit
+            );
+          }
+        }
+        await tx.profile.update({
+          where: { id: interpreterId },
+          data: { totalInterpretations: { increment: 1 } },
+        });
+      }
+
+      await recordDreamStatusChange(tx, {
+        dreamId: id,
+        fromStatus: 'pending_review',
+        toStatus: nextStatus,
+        changedById: userId,
+        reason: reviewNotes,
+      });
+
+      const review = await tx.interpretationReview.create({
+        data: {
+          dreamId: id,
+          interpreterId,
+          reviewerId: userId,
+          decision,
+          notes: reviewNotes,
+          submittedAt: dream.reviewRequestedAt ?? dream.updatedAt,
+        },
+        include: reviewInclude,
+      });
+
+      const updatedDream = await tx.dream.findUniqueOrThrow({ where: { id }, include: dreamListInclude });
+
+      return { review, dream: updatedDream };
+    });
+
+    if (!result) {
+      return res.status(409).json({
+        error: 'The dream was changed by someone else, reload and try again',
+        code: 'DREAM_STATUS_CONFLICT',
+      });
+    }
+
+    if (decision === 'edited') {
+      await syncDreamSearchDocument(result.dream);
+    }
+
+    return res.status(201).json({ review: formatReview(result.review), dream: withSlaStatus(result.dream) });
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return res.status(403).json({ error: error.message, code: error.code, limit: error.limit });
+    }
+    console.error('[Dreams] Review error:', error);
+    return res.status(500).json({ error: 'Failed to review interpretation' });
+  }
+});
+
+// Review decisions on a dream, for its interpreter and reviewers. The dreamer isn't shown these.
+router.get('/:id/reviews', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const dream = await prisma.dream.findUnique({
+      where: { id },
+      select: { interpreterId: true },
+    });
+
+    if (!dream) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    const hasAccess =
+      dream.interpreterId === userId ||
+      (await hasPermission(req.user!.role, 'dreams:read_all')) ||
+      (await canReviewDreams(userId, req.user!.role));
+
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const reviews = await prisma.interpretationReview.findMany({
+      where: { dreamId: id },
+      orderBy: { createdAt: 'asc' },
+      include: reviewInclude,
+    });
+
+    return res.json({ reviews: reviews.map(formatReview) });
+  } catch (error) {
+    console.error('[Dreams] Reviews fetch error:', error);
+    return res.status(500).json({ error: 'Failed to fetch reviews' });
+  }
+});
+
+// The dreamer rates an interpreted dream once; the rating can't be edited afterwards
+router.post('/:id/rating', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    const { stars, review } = req.body ?? {};
+
+    if (!Number.isInteger(stars) || stars < MIN_STARS || stars > MAX_STARS) {
+      return res.status(400).json({ error: `stars must be a whole number from ${MIN_STARS} to ${MAX_STARS}` });
+    }
+
+    if (review !== undefined && review !== null && typeof review !== 'string') {
+      return res.status(400).json({ error: 'review must be a string' });
+    }
+
+    if (typeof review === 'string' && review.length > MAX_REVIEW_LENGTH) {
+      return res.status(400).json({ error: `review must be at most ${MAX_REVIEW_LENGTH} characters` });
+    }
+
+    const dream = await prisma.dream.findUnique({
+      where: { id },
+      select: { id: true, status: true, dreamerId: true, interpreterId: true, rating: { select: { id: true } } },
+    });
+
+    if (!dream) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    if (dream.dreamerId !== userId) {
+      return res.status(403).json({ error: 'Only the dreamer can rate this interpretation' });
+    }
+
+    if (dream.status !== 'interpreted' || !dream.interpreterId) {
+      return res.status(409).json({
+        error: 'Only interpreted dreams can be rated',
+        code: 'DREAM_NOT_INTERPRETED',
+      });
+    }
+
+    if (dream.rating) {
+      return res.status(409).json({ error: 'You have already rated this dream', code: 'ALREADY_RATED' });
+    }
+
+    const interpreterId = dream.interpreterId;
+
+    const rating = await prisma.$transaction(async (tx) => {
+      const created = await tx.dreamRating.create({
+        data: {
+          dreamId: id,
+          dreamerId: userId,
+          interpreterId,
+          stars,
+          review: typeof review === 'string' && review.trim() ? review.trim() : null,
+        },
+      });
+
+      await recalculateInterpreterRating(tx, interpreterId);
+
+      return created;
+    });
+
+    return res.status(201).json({ rating: formatRating(rating) });
+  } catch (error) {
+    // Two submissions raced past the check above; dream_id is unique
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ error: 'You have already rated this dream', code: 'ALREADY_RATED' });
+    }
+    console.error('[Dreams] Rating error:', error);
+    return res.status(500).json({ error: 'Failed to rate dream' });
+  }
+});
+
+router.get('/:id/rating', allowApiKey('dreams:read'), requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const dream = await prisma.dream.findUnique({
+      where: { id },
+      select: { dreamerId: true, interpreterId: true, rating: true },
+    });
+
+    if (!dream) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    const hasAccess =
+      dream.dreamerId === userId ||
+      dream.interpreterId === userId ||
+      (await hasPermission(req.user!.role, 'dreams:read_all'));
+
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    return res.json({ rating: dream.rating ? formatRating(dream.rating) : null });
+  } catch (error) {
+    console.error('[Dreams] Rating fetch error:', error);
+    return res.status(500).json({ error: 'Failed to fetch rating' });
+  }
+});
+
+router.get('/:id/revisions', allowApiKey('dreams:read'), requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const dream = await prisma.dream.findUnique({
+      where: { id },
+      select: { id: true, status: true, dreamerId: true, interpreterId: true, reviewRequestedAt: true },
+    });
+
+    if (!dream) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    const hasAccess =
+      dream.dreamerId === userId ||
+      dream.interpreterId === userId ||
+      (await hasPermission(req.user!.role, 'dreams:read_all')) ||
+      (dream.status === 'pending_review' && (await canReviewDreams(userId, req.user!.role)));
+
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const revisions = await prisma.interpretationRevision.findMany({
+      where: {
+        dreamId: id,
+        // Work that hasn't been approved stays with the interpreter and reviewers
+        ...(isReviewHiddenFrom(dream, userId) && { createdAt: await reviewedRevisionsFilter(dream) }),
+      },
+      orderBy: { version: 'asc' },
+      include: {
+        author: { select: { id: true, fullName: true, role: true } },
+      },
+    });
+
+    return res.json({ revisions: revisions.map(formatRevision) });
+  } catch (error) {
+    console.error('[Dreams] Revisions fetch error:', error);
+    return res.status(500).json({ error: 'Failed to fetch interpretation revisions' });
+  }
+});
+
+const followUpInclude = {
+  askedBy: { select: { id: true, fullName: true } },
+  answeredBy: { select: { id: true, fullName: true } },
+} as const;
+
+router.get('/:id/follow-ups', allowApiKey('dreams:read'), requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const dream = await prisma.dream.findUnique({
+      where: { id },
+      select: { dreamerId: true, interpreterId: true, userPlanId: true },
+    });
+
+    if (!dream) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    const hasAccess =
+      dream.dreamerId === userId ||
+      dream.interpreterId === userId ||
+      (await hasPermission(req.user!.role, 'dreams:read_all'));
+
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const followUps = await prisma.dreamFollowUp.findMany({
+      where: { dreamId: id },
+      orderBy: { round: 'asc' },
+      include: followUpInclude,
+    });
+
+    const subscription = await findDreamSubscription(dream);
+
+    return res.json({
+      followUps: followUps.map(formatFollowUp),
+      rounds: getFollowUpAllowance(subscription, followUps.length),
+    });
+  } catch (error) {
+    console.error('[Dreams] Follow-ups fetch error:', error);
+    return res.status(500).json({ error: 'Failed to fetch follow-up questions' });
+  }
+});
+
+// The dreamer asks for clarification on a delivered interpretation. Each
+// question is one round; the plan's followUpRounds caps how many a dream gets,
+// and a new round can't start until the previous one is answered.
+router.post('/:id/follow-ups', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    const question = typeof req.body?.question === 'string' ? req.body.question.trim() : '';
+
+    if (!question) {
+      return res.status(400).json({ error: 'question is required' });
+    }
+
+    if (question.length > MAX_FOLLOW_UP_LENGTH) {
+      return res.status(400).json({ error: `question must be at most ${MAX_FOLLOW_UP_LENGTH} characters` });
+    }
+
+    const dream = await prisma.dream.findUnique({
+      where: { id },
+      select: { id: true, status: true, dreamerId: true, interpreterId: true, userPlanId: true },
+    });
+
+    if (!dream) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    if (dream.dreamerId !== userId) {
+      return res.status(403).json({ error: 'Only the dreamer can ask follow-up questions' });
+    }
+
+    if (dream.status !== 'interpreted') {
+      return res.status(409).json({
+        error: 'Follow-up questions can only be asked on interpreted dreams',
+        code: 'DREAM_NOT_INTERPRETED',
+      });
+    }
+
+    const previous = await prisma.dreamFollowUp.findMany({
+      where: { dreamId: id },
+      select: { round: true, answeredAt: true },
+      orderBy: { round: 'asc' },
+    });
+
+    if (previous.some((followUp) => !followUp.answeredAt)) {
+      return res.status(409).json({
+        error: 'Wait for the interpreter to answer your previous question',
+        code: 'FOLLOW_UP_PENDING',
+      });
+    }
+
+    const subscription = await findDreamSubscription(dream);
+    const rounds = getFollowUpAllowance(subscription, previous.length);
+
+    if (rounds.remaining === 0) {
+      return res.status(403).json({
+        error: `Follow-up limit (${rounds.limit}) reached for this dream on your plan`,
+        code: 'FOLLOW_UP_LIMIT_REACHED',
+        limit: rounds.limit,
+      });
+    }
+
+    // (dreamId, round) is unique, so a concurrent question for the same round fails below
+    const followUp = await prisma.dreamFollowUp.create({
+      data: {
+        dreamId: id,
+        round: previous.length + 1,
+        askedById: userId,
+        question,
+      },
+      include: followUpInclude,
+    });
+
+    return res.status(201).json({
+      followUp: formatFollowUp(followUp),
+      rounds: getFollowUpAllowance(subscription, followUp.round),
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({
+        error: 'Another follow-up question was just asked on this dream',
+        code: 'FOLLOW_UP_PENDING',
+      });
+    }
+    console.error('[Dreams] Follow-up create error:', error);
+    return res.status(500).json({ error: 'Failed to ask follow-up question' });
+  }
+});
+
+router.post('/:id/follow-ups/:followUpId/answer', requireAuth, async (req, res) => {
+  try {
+    const { id, followUpId } = req.params;
+    const userId = req.user!.userId;
+    const answer = typeof req.body?.answer === 'string' ? req.body.answer.trim() : '';
+
+    if (!answer) {
+      return res.status(400).json({ error: 'answer is required' });
+    }
+
+    if (answer.length > MAX_FOLLOW_UP_LENGTH) {
+      return res.status(400).json({ error: `answer must be at most ${MAX_FOLLOW_UP_LENGTH} characters` });
+    }
+
+    const followUp = await prisma.dreamFollowUp.findFirst({
+      where: { id: followUpId, dreamId: id },
+      include: { dream: { select: { interpreterId: true } } },
+    });
+
+    if (!followUp) {
+      return res.status(404).json({ error: 'Follow-up question not found' });
+    }
+
+    const canAnswer =
+      followUp.dream.interpreterId === userId || (await hasPermission(req.user!.role, 'dreams:manage'));
+
+    if (!canAnswer) {
+      return res.status(403).json({ error: 'Only the assigned interpreter can answer follow-up questions' });
+    }
+
+    const { count } = await prisma.dreamFollowUp.updateMany({
+      where: { id: followUpId, answeredAt: null },
+      data: { answer, answeredById: userId, answeredAt: new Date() },
+    });
+
+    if (count === 0) {
+      return res.status(409).json({
+        error: 'This follow-up question has already been answered',
+        code: 'FOLLOW_UP_ALREADY_ANSWERED',
+      });
+    }
+
+    const answered = await prisma.dreamFollowUp.findUniqueOrThrow({
+      where: { id: followUpId },
+      include: followUpInclude,
+    });
+
+    return res.json({ followUp: formatFollowUp(answered) });
+  } catch (error) {
+    console.error('[Dreams] Follow-up answer error:', error);
+    return res.status(500).json({ error: 'Failed to answer follow-up question' });
+  }
+});
+
+// The dreamer opts in to sharing an interpreted dream. An anonymized copy is
+// queued for admin approval; calling this again while it is pending (or after
+// it was rejected or withdrawn) replaces the copy and queues it again.
+router.post('/:id/publication', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    const { category, maskTerms } = req.body ?? {};
+
+    if (!isDreamCategory(category)) {
+      return res.status(400).json({ error: `category must be one of: ${Object.keys(DREAM_CATEGORIES).join(', ')}` });
+    }
+
+    if (
+      maskTerms !== undefined &&
+      (!Array.isArray(maskTerms) ||
+        maskTerms.length > MAX_MASK_TERMS ||
+        !maskTerms.every((term: unknown) => typeof term === 'string'))
+    ) {
+      return res.status(400).json({ error: `maskTerms must be a list of at most ${MAX_MASK_TERMS} strings` });
+    }
+
+    const dream = await prisma.dream.findUnique({
+      where: { id },
+      include: {
+        dreamer: { select: { fullName: true } },
+        publication: { select: { status: true } },
+      },
+    });
+
+    if (!dream) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    if (dream.dreamerId !== userId) {
+      return res.status(403).json({ error: 'Only the dreamer can publish this dream' });
+    }
+
+    if (dream.status !== 'interpreted' || !dream.interpretation) {
+      return res.status(409).json({
+        error: 'Only interpreted dreams can be published',
+        code: 'DREAM_NOT_INTERPRETED',
+      });
+    }
+
+    if (dream.publication?.status === 'approved') {
+      return res.status(409).json({ error: 'This dream is already published', code: 'ALREADY_PUBLISHED' });
+    }
+
+    const snapshot = anonymizeDreamForPublishing(
+      { title: dream.title, content: dream.content, interpretation: dream.interpretation },
+      { dreamerName: dream.dreamer.fullName, extraTerms: maskTerms }
+    );
+
+    const publication = await prisma.publishedDream.upsert({
+      where: { dreamId: id },
+      create: { dreamId: id, category, ...snapshot },
+      update: {
+        category,
+        ...snapshot,
+        status: 'pending',
+        reviewedById: null,
+        reviewedAt: null,
+        rejectionReason: null,
+        publishedAt: null,
+      },
+    });
+
+    return res.status(201).json({ publication: formatPublication(publication) });
+  } catch (error) {
+    console.error('[Dreams] Publication request error:', error);
+    return res.status(500).json({ error: 'Failed to submit dream for publishing' });
+  }
+});
+
+router.get('/:id/publication', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const dream = await prisma.dream.findUnique({
+      where: { id },
+      select: { dreamerId: true, publication: true },
+    });
+
+    if (!dream) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    const hasAccess =
+      dream.dreamerId === userId || (await hasPermission(req.user!.role, 'publications:moderate'));
+
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    return res.json({ publication: dream.publication ? formatPublication(dream.publication) : null });
+  } catch (error) {
+    console.error('[Dreams] Publication fetch error:', error);
+    return res.status(500).json({ error: 'Failed to fetch publication' });
+  }
+});
+
+// The dreamer can take a dream off the feed (or out of the approval queue) at any time
+router.delete('/:id/publication', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const dream = await prisma.dream.findUnique({
+      where: { id },
+      select: { dreamerId: true, publication: { select: { id: true, status: true } } },
+    });
+
+    if (!dream) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    if (dream.dreamerId !== userId) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    if (!dream.publication || dream.publication.status === 'withdrawn') {
+      return res.status(404).json({ error: 'This dream is not published' });
+    }
+
+    const publication = await prisma.publishedDream.update({
+      where: { id: dream.publication.id },
+      data: { status: 'withdrawn', publishedAt: null },
+    });
+
+    return res.json({ publication: formatPublication(publication) });
+  } catch (error) {
+    console.error('[Dreams] Publication withdraw error:', error);
+    return res.status(500).json({ error: 'Failed to withdraw publication' });
+  }
+});
+
+const MAX_SYMBOLS_PER_REQUEST = 20;
+
+const symbolTagInclude = {
+  symbol: { select: { id: true, slug: true, name: true } },
+  taggedBy: { select: { id: true, fullName: true } },
+} as const;
+
+function formatSymbolTag(tag: {
+  createdAt: Date;
+  symbol: { id: string; slug: string; name: string };
+  taggedBy: { id: string; fullName: string | null } | null;
+}) {
+  return { ...tag.symbol, taggedBy: tag.taggedBy, taggedAt: tag.createdAt.toISOString() };
+}
+
+// Symbols tagged on a dream, for its interpreter and staff (see /api/symbols)
+router.get('/:id/symbols', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const dream = await prisma.dream.findUnique({ where: { id }, select: { interpreterId: true } });
+
+    if (!dream) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    const hasAccess =
+      dream.interpreterId === userId || (await hasPermission(req.user!.role, 'dreams:read_all'));
+
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const tags = await prisma.dreamSymbolTag.findMany({
+      where: { dreamId: id },
+      orderBy: { createdAt: 'asc' },
+      include: symbolTagInclude,
+    });
+
+    return res.json({ symbols: tags.map(formatSymbolTag) });
+  } catch (error) {
+    console.error('[Dreams] Symbols fetch error:', error);
+    return res.status(500).json({ error: 'Failed to fetch dream symbols' });
+  }
+});
+
+// The assigned interpreter (or a manager) tags symbols found in the dream. Tags already present are kept.
+router.post('/:id/symbols', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    const { symbolIds } = req.body ?? {};
+
+    if (
+      !Array.isArray(symbolIds) ||
+      symbolIds.length === 0 ||
+      symbolIds.length > MAX_SYMBOLS_PER_REQUEST ||
+      !symbolIds.every((symbolId: unknown) => typeof symbolId === 'string')
+    ) {
+      return res.status(400).json({ error: `symbolIds must be a list of 1 to ${MAX_SYMBOLS_PER_REQUEST} symbol ids` });
+    }
+
+    const dream = await prisma.dream.findUnique({ where: { id }, select: { interpreterId: true } });
+
+    if (!dream) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    const canTag =
+      (dream.interpreterId === userId && (await hasPermission(req.user!.role, 'symbols:use'))) ||
+      (await hasPermission(req.user!.role, 'dreams:manage'));
+
+    if (!canTag) {
+      return res.status(403).json({ error: 'Only the assigned interpreter can tag symbols on this dream' });
+    }
+
+    const uniqueIds = Array.from(new Set(symbolIds as string[]));
+    const symbols = await prisma.dreamSymbol.findMany({
+      where: { id: { in: uniqueIds }, isActive: true },
+      select: { id: true },
+    });
+
+    if (symbols.length !== uniqueIds.length) {
+      const found = new Set(symbols.map((symbol) => symbol.id));
+      return res.status(400).json({
+        error: 'Some symbols do not exist or have been retired',
+        code: 'UNKNOWN_SYMBOL',
+        symbolIds: uniqueIds.filter((symbolId) => !found.has(symbolId)),
+      });
+    }
+
+    await prisma.dreamSymbolTag.createMany({
+      data: uniqueIds.map((symbolId) => ({ dreamId: id, symbolId, taggedById: userId })),
+      skipDuplicates: true,
+    });
+
+    const tags = await prisma.dreamSymbolTag.findMany({
+      where: { dreamId: id },
+      orderBy: { createdAt: 'asc' },
+      include: symbolTagInclude,
+    });
+
+    return res.status(201).json({ symbols: tags.map(formatSymbolTag) });
+  } catch (error) {
+    console.error('[Dreams] Symbol tag error:', error);
+    return res.status(500).json({ error: 'Failed to tag symbols' });
+  }
+});
+
+router.delete('/:id/symbols/:symbolId', requireAuth, async (req, res) => {
+  try {
+    const { id, symbolId } = req.params;
+    const userId = req.user!.userId;
+
+    const dream = await prisma.dream.findUnique({ where: { id }, select: { interpreterId: true } });
+
+    if (!dream) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    const canTag =
+      (dream.interpreterId === userId && (await hasPermission(req.user!.role, 'symbols:use'))) ||
+      (await hasPermission(req.user!.role, 'dreams:manage'));
+
+    if (!canTag) {
+      return res.status(403).json({ error: 'Only the assigned interpreter can remove symbols from this dream' });
+    }
+
+    const { count } = await prisma.dreamSymbolTag.deleteMany({ where: { dreamId: id, symbolId } });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'This symbol is not tagged on the dream' });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('[Dreams] Symbol untag error:', error);
+    return res.status(500).json({ error: 'Failed to remove symbol' });
+  }
+});
+
+router.get('/:id/history', allowApiKey('dreams:read'), requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const dream = await prisma.dream.findUnique({
+      where: { id },
+      select: { id: true, status: true, dreamerId: true, interpreterId: true, reviewRequestedAt: true },
+    });
+
+    if (!dream) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    const canReview = await canReviewDreams(userId, req.user!.role);
+    const hasAccess =
+      dream.dreamerId === userId ||
+      dream.interpreterId === userId ||
+      (await hasPermission(req.user!.role, 'dreams:read_all')) ||
+      (dream.status === 'pending_review' && canReview);
+
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    let history = await prisma.dreamStatusHistory.findMany({
+      where: { dreamId: id },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        changedBy: { select: { id: true, fullName: true, role: true } },
+      },
+    });
+
+    const hideReview = dream.dreamerId === userId && dream.interpreterId !== userId;
+    if (hideReview) {
+      // To the dreamer the review round trip is part of pending_interpretation
+      history = history
+        .filter(
+          (entry) =>
+            entry.toStatus !== 'pending_review' &&
+            !(entry.fromStatus === 'pending_review' && entry.toStatus === 'pending_interpretation')
+        )
+        .map((entry) =>
+          entry.fromStatus === 'pending_review'
+            ? { ...entry, fromStatus: 'pending_interpretation' as const, reason: null }
+            : entry
+        );
+    }
+
+    const actors = dreamActors(dream, userId, {
+      canManage: await hasPermission(req.user!.role, 'dreams:manage'),
+      canAssign: await hasPermission(req.user!.role, 'dreams:assign'),
+      canReview,
+    });
+
+    return res.json({
+      status: hideReviewFromDreamer({ ...dream, interpretation: null }, userId).status,
+      allowedTransitions: getAllowedTransitions(dream.status, actors),
+      history: history.map((entry) => ({
+        id: entry.id,
+        fromStatus: entry.fromStatus,
+        toStatus: entry.toStatus,
+        reason: entry.reason,
+        changedBy: entry.changedBy,
+        createdAt: entry.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('[Dreams] History fetch error:', error);
+    return res.status(500).json({ error: 'Failed to fetch dream history' });
+  }
+});
+
+router.delete('/:id', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const dream = await prisma.dream.findUnique({ where: { id } });
+
+    if (!dream) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    if (dream.dreamerId !== userId) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const deleted = await prisma.$transaction(async (tx) => {
+      // Lock the row so the status can't change under us (e.g. to interpreted) before it's gone
+      const [current] = await tx.$queryRaw<{ status: DreamStatus }[]>`
+        SELECT status FROM dreams WHERE id = ${id} FOR UPDATE
+      `;
+      if (!current) {
+        return false;
+      }
+
+      // An interpreted dream has been delivered, so deleting it doesn't free up quota
+      if (current.status !== 'interpreted') {
+        await refundDreamUsage(tx, dream, {
+          userId: dream.dreamerId,
+          reason: 'dream_deleted',
+          sourceType: 'dream',
+          sourceId: id,
+        });
+      }
+      const rating = await tx.dreamRating.findUnique({ where: { dreamId: id }, select: { interpreterId: true } });
+      await tx.dream.delete({ where: { id } });
+      // The rating goes with the dream, so it no longer counts for the interpreter
+      if (rating?.interpreterId) {
+        await recalculateInterpreterRating(tx, rating.interpreterId);
+      }
+      return true;
+    });
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
 
     return res.json({ success: true });
   } catch (error) {
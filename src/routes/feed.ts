@@ -0,0 +1,157 @@
+import { Router } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { requireAuth } from '../middleware/auth';
+import { buildPage, parsePageParams } from '../utils/pagination';
+import { DREAM_CATEGORIES, formatFeedComment, formatFeedEntry, isDreamCategory } from '../utils/publishing';
+
+const router = Router();
+
+const feedInclude = {
+  dream: { select: { interpreter: { select: { fullName: true, avatarUrl: true } } } },
+} satisfies Prisma.PublishedDreamInclude;
+
+// Public endpoint - approved dreams, newest first. ?category=glad_tidings for one category.
+router.get('/', async (req, res) => {
+  try {
+    const query = req.query as Record<string, unknown>;
+
+    const page = parsePageParams(query, { defaultLimit: 12, maxLimit: 50 });
+    if ('error' in page) {
+      return res.status(400).json({ error: page.error });
+    }
+
+    if (query.category !== undefined && !isDreamCategory(query.category)) {
+      return res.status(400).json({ error: `category must be one of: ${Object.keys(DREAM_CATEGORIES).join(', ')}` });
+    }
+
+    const where: Prisma.PublishedDreamWhereInput = {
+      status: 'approved',
+      ...(isDreamCategory(query.category) && { category: query.category }),
+    };
+
+    const rows = await prisma.publishedDream.findMany({
+      where,
+      orderBy: [{ publishedAt: 'desc' }, { id: 'desc' }],
+      take: page.limit + 1,
+      ...(page.cursor && { cursor: { id: page.cursor }, skip: 1 }),
+      include: feedInclude,
+    });
+
+    const { items, nextCursor } = buildPage(rows, page.limit);
+
+    return res.json({ dreams: items.map(formatFeedEntry), nextCursor });
+  } catch (error) {
+    console.error('[Feed] Fetch error:', error);
+    return res.status(500).json({ error: 'Failed to fetch feed' });
+  }
+});
+
+// Public endpoint - categories with their labels and how many approved dreams each has
+router.get('/categories', async (_req, res) => {
+  try {
+    const counts = await prisma.publishedDream.groupBy({
+      by: ['category'],
+      where: { status: 'approved' },
+      _count: { _all: true },
+    });
+
+    const countByCategory = new Map(counts.map((row) => [row.category, row._count._all]));
+
+    return res.json({
+      categories: Object.entries(DREAM_CATEGORIES).map(([key, label]) => ({
+        key,
+        label,
+        count: countByCategory.get(key) ?? 0,
+      })),
+    });
+  } catch (error) {
+    console.error('[Feed] Categories error:', error);
+    return res.status(500).json({ error: 'Failed to fetch categories' });
+  }
+});
+
+// Public endpoint - one approved dream
+router.get('/:id', async (req, res) => {
+  try {
+    const publication = await prisma.publishedDream.findFirst({
+      where: { id: req.params.id, status: 'approved' },
+      include: feedInclude,
+    });
+
+    if (!publication) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    return res.json({ dream: formatFeedEntry(publication) });
+  } catch (error) {
+    console.error('[Feed] Fetch single error:', error);
+    return res.status(500).json({ error: 'Failed to fetch dream' });
+  }
+});
+
+const feedCommentInclude = {
+  user: { select: { id: true, fullName: true, role: true, avatarUrl: true } },
+} satisfies Prisma.CommentInclude;
+
+// Public endpoint - comments posted on an approved dream through the feed.
+// The dream's private comment thread is never shown here.
+router.get('/:id/comments', async (req, res) => {
+  try {
+    const publication = await prisma.publishedDream.findFirst({
+      where: { id: req.params.id, status: 'approved' },
+      select: { id: true, dream: { select: { dreamerId: true } } },
+    });
+
+    if (!publication) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    const comments = await prisma.comment.findMany({
+      where: { publicationId: publication.id },
+      include: feedCommentInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return res.json({ comments: comments.map((comment) => formatFeedComment(comment, publication.dream.dreamerId)) });
+  } catch (error) {
+    console.error('[Feed] Comments fetch error:', error);
+    return res.status(500).json({ error: 'Failed to fetch comments' });
+  }
+});
+
+router.post('/:id/comments', requireAuth, async (req, res) => {
+  try {
+    const { content } = req.body ?? {};
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return res.status(400).json({ error: 'content is required' });
+    }
+
+    const publication = await prisma.publishedDream.findFirst({
+      where: { id: req.params.id, status: 'approved' },
+      select: { id: true, dreamId: true, dream: { select: { dreamerId: true } } },
+    });
+
+    if (!publication) {
+      return res.status(404).json({ error: 'Dream not found' });
+    }
+
+    const comment = await prisma.comment.create({
+      data: {
+        dreamId: publication.dreamId,
+        publicationId: publication.id,
+        userId: req.user!.userId,
+        content,
+      },
+      include: feedCommentInclude,
+    });
+
+    return res.status(201).json({ comment: formatFeedComment(comment, publication.dream.dreamerId) });
+  } catch (error) {
+    console.error('[Feed] Comment create error:', error);
+    return res.status(500).json({ error: 'Failed to create comment' });
+  }
+});
+
+export default router;
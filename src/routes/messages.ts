@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import prisma from '../lib/prisma';
 import { requireAuth } from '../middleware/auth';
+import { hasPermission } from '../utils/permissions';
 import { writeFile } from 'fs/promises';
 import { existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
@@ -22,24 +23,18 @@ router.get('/', requireAuth, async (req, res) => {
       return res.status(404).json({ error: 'Dream not found' });
     }
 
-    const profile = await prisma.profile.findUnique({
-      where: { id: userId },
-      select: { role: true },
-    });
-
     const hasAccess =
       dream.dreamerId === userId ||
       dream.interpreterId === userId ||
-      profile?.role === 'admin' ||
-      profile?.role === 'super_admin';
+      (await hasPermission(req.user!.role, 'messages:read_all'));
 
     if (!hasAccess) {
       return res.status(403).json({ error: 'Forbidden' });
     }
 
     // Check if interpreter is assigned to the dream
-    const isSuperAdmin = profile?.role === 'super_admin';
-    if (!dream.interpreterId && !isSuperAdmin) {
+    const canManage = await hasPermission(req.user!.role, 'dreams:manage');
+    if (!dream.interpreterId && !canManage) {
       return res.status(403).json({
         error: 'Messages are not available yet. An interpreter must be assigned to this dream first.'
       });
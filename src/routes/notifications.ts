@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import prisma from '../lib/prisma';
 import { requireAuth } from '../middleware/auth';
+import { hasPermission } from '../utils/permissions';
+import { overdueDreamsWhere } from '../utils/sla';
 
 const router = Router();
 
@@ -50,9 +52,21 @@ router.get('/', requireAuth, async (req, res) => {
       });
     }
 
+    let overdueDreams: unknown[] = [];
+
+    if (profile && (await hasPermission(profile.role, 'dreams:assign'))) {
+      overdueDreams = await prisma.dream.findMany({
+        where: overdueDreamsWhere(),
+        take: 10,
+        orderBy: { dueAt: 'asc' },
+        select: { id: true, title: true, status: true, dueAt: true, interpreterId: true },
+      });
+    }
+
     return res.json({
       messages: unreadMessages,
       requests: openRequests,
+      overdueDreams,
       unreadCount: unreadMessages.length,
     });
   } catch (error) {
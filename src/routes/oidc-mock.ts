@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import { Router } from 'express';
+import jwt from 'jsonwebtoken';
+import {
+  MOCK_CLIENT_ID,
+  MOCK_PROVIDER_ID,
+  codeChallengeFor,
+  getOidcProvider,
+  isOidcMockEnabled,
+  mockIssuer,
+  oidcRedirectUri,
+} from '../lib/oidc';
+
+// Minimal OpenID provider for local development and offline testing. It signs
+// in whoever is named in login_hint without asking for a password, so it is
+// only mounted when OIDC_MOCK_ENABLED=true, and never in production.
+const router = Router();
+
+// server.ts only mounts this when enabled; checked again in case it's mounted elsewhere
+router.use((_req, res, next) => {
+  if (!isOidcMockEnabled()) {
+    return res.status(404).json({ error: 'Route not found' });
+  }
+  return next();
+});
+
+const CODE_TTL_MS = 2 * 60 * 1000;
+const ID_TOKEN_TTL_SECONDS = 5 * 60;
+const DEFAULT_EMAIL = 'mock.user@example.com';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = crypto.randomBytes(8).toString('hex');
+
+interface PendingCode {
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string | null;
+  email: string;
+  emailVerified: boolean;
+  name: string;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+
+function pruneCodes() {
+  const now = Date.now();
+  for (const [code, pending] of codes) {
+    if (pending.expiresAt <= now) {
+      codes.delete(code);
+    }
+  }
+}
+
+router.get('/.well-known/openid-configuration', (_req, res) => {
+  const issuer = mockIssuer();
+  res.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+    scopes_supported: ['openid', 'email', 'profile'],
+  });
+});
+
+router.get('/jwks', (_req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }] });
+});
+
+// Approves immediately: ?login_hint=<email>&name=<name>&email_verified=false
+router.get('/authorize', (req, res) => {
+  const provider = getOidcProvider(MOCK_PROVIDER_ID);
+  const query = req.query as Record<string, string | undefined>;
+
+  if (!provider || query.client_id !== MOCK_CLIENT_ID || query.redirect_uri !== oidcRedirectUri(provider)) {
+    return res.status(400).json({ error: 'invalid_client' });
+  }
+
+  if (query.response_type !== 'code' || !query.code_challenge || query.code_challenge_method !== 'S256') {
+    return res.status(400).json({ error: 'invalid_request', error_description: 'PKCE with S256 is required' });
+  }
+
+  pruneCodes();
+
+  const email = (query.login_hint || DEFAULT_EMAIL).trim().toLowerCase();
+  const code = crypto.randomBytes(24).toString('base64url');
+
+  codes.set(code, {
+    redirectUri: query.redirect_uri,
+    codeChallenge: query.code_challenge,
+    nonce: query.nonce ?? null,
+    email,
+    emailVerified: query.email_verified !== 'false',
+    name: query.name || email.split('@')[0],
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+
+  const redirect = new URL(query.redirect_uri);
+  redirect.searchParams.set('code', code);
+  if (query.state) {
+    redirect.searchParams.set('state', query.state);
+  }
+
+  return res.redirect(302, redirect.toString());
+});
+
+router.post('/token', (req, res) => {
+  const { grant_type: grantType, code, redirect_uri: redirectUri, client_id: clientId, code_verifier: codeVerifier } =
+    req.body ?? {};
+
+  if (grantType !== 'authorization_code' || clientId !== MOCK_CLIENT_ID) {
+    return res.status(400).json({ error: 'unsupported_grant_type' });
+  }
+
+  const pending = typeof code === 'string' ? codes.get(code) : undefined;
+  if (pending) {
+    // Codes are single use, even when the exchange below fails
+    codes.delete(code);
+  }
+
+  if (
+    !pending ||
+    pending.expiresAt <= Date.now() ||
+    pending.redirectUri !== redirectUri ||
+    typeof codeVerifier !== 'string' ||
+    codeChallengeFor(codeVerifier) !== pending.codeChallenge
+  ) {
+    return res.status(400).json({ error: 'invalid_grant' });
+  }
+
+  const subject = crypto.createHash('sha256').update(pending.email).digest('hex').slice(0, 24);
+
+  const idToken = jwt.sign(
+    {
+      email: pending.email,
+      email_verified: pending.emailVerified,
+      name: pending.name,
+      ...(pending.nonce && { nonce: pending.nonce }),
+    },
+    privateKey,
+    {
+      algorithm: 'RS256',
+      keyid: KEY_ID,
+      issuer: mockIssuer(),
+      audience: MOCK_CLIENT_ID,
+      subject,
+      expiresIn: ID_TOKEN_TTL_SECONDS,
+    }
+  );
+
+  return res.json({
+    access_token: crypto.randomBytes(24).toString('base64url'),
+    token_type: 'Bearer',
+    expires_in: ID_TOKEN_TTL_SECONDS,
+    id_token: idToken,
+  });
+});
+
+export default router;
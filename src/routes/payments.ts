@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { requireAuth } from '../middleware/auth';
+import { forbidImpersonation, requireAuth } from '../middleware/auth';
 import stripe from '../lib/stripe';
 import prisma from '../lib/prisma';
 import { Prisma } from '@prisma/client';
@@ -7,7 +7,7 @@ import { Prisma } from '@prisma/client';
 const router = Router();
 
 // Create Stripe checkout session
-router.post('/create-checkout-session', requireAuth, async (req, res) => {
+router.post('/create-checkout-session', requireAuth, forbidImpersonation, async (req, res) => {
     try {
         if (!stripe) {
             return res.status(503).json({
@@ -155,12 +155,16 @@ router.post('/webhook', async (req, res) => {
                             expiresAt: expiresAt,
                             lettersUsed: 0,
                             audioMinutesUsed: 0,
+                            interpretationsUsed: 0,
+                            dreamsUsed: 0,
                         },
                         update: {
                             isActive: true,
                             expiresAt: expiresAt,
                             lettersUsed: 0,
                             audioMinutesUsed: 0,
+                            interpretationsUsed: 0,
+                            dreamsUsed: 0,
                             startedAt: new Date(),
                         },
                     });
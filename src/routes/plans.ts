@@ -1,7 +1,11 @@
 import { Router } from 'express';
 import { Prisma } from '@prisma/client';
 import prisma from '../lib/prisma';
-import { optionalAuth, requireAuth } from '../middleware/auth';
+import { allowApiKey, optionalAuth, requireAuth, requirePermission } from '../middleware/auth';
+import { hasPermission } from '../utils/permissions';
+import { parsePageParams } from '../utils/pagination';
+import { getUsageSummary } from '../utils/quota';
+import { listUsageEvents } from '../utils/usageLedger';
 
 const router = Router();
 
@@ -19,6 +23,8 @@ function formatPlan(plan: any) {
     maxInterpretations: plan.maxInterpretations,
     letterQuota: plan.letterQuota,
     audioMinutesQuota: plan.audioMinutesQuota,
+    slaHours: plan.slaHours ?? null,
+    followUpRounds: plan.followUpRounds ?? null,
     features: plan.features ?? [],
     isActive: plan.isActive,
     createdAt: plan.createdAt,
@@ -26,12 +32,18 @@ function formatPlan(plan: any) {
   };
 }
 
-router.get('/', optionalAuth, async (req, res) => {
+function isValidSlaHours(value: unknown) {
+  return Number.isInteger(Number(value)) && Number(value) > 0;
+}
+
+function isValidFollowUpRounds(value: unknown) {
+  return Number.isInteger(Number(value)) && Number(value) >= 0;
+}
+
+router.get('/', allowApiKey('plans:read'), optionalAuth, async (req, res) => {
   try {
     const includeInactive = req.query.includeInactive === 'true';
-    const requesterRole = req.user?.role;
-
-    const isElevated = requesterRole === 'admin' || requesterRole === 'super_admin';
+    const isElevated = await hasPermission(req.user?.role, 'plans:read_inactive');
 
     const plans = await prisma.plan.findMany({
       where: includeInactive && isElevated ? {} : { isActive: true },
@@ -45,12 +57,8 @@ router.get('/', optionalAuth, async (req, res) => {
   }
 });
 
-router.post('/', requireAuth, async (req, res) => {
+router.post('/', requireAuth, requirePermission('plans:write'), async (req, res) => {
   try {
-    if (req.user!.role !== 'super_admin') {
-      return res.status(403).json({ error: 'Forbidden - Super admin access required' });
-    }
-
     const {
       name,
       description,
@@ -62,6 +70,8 @@ router.post('/', requireAuth, async (req, res) => {
       maxInterpretations,
       letterQuota,
       audioMinutesQuota,
+      slaHours,
+      followUpRounds,
       countryCodes,
       features,
       isActive = true,
@@ -83,6 +93,14 @@ router.post('/', requireAuth, async (req, res) => {
       return res.status(400).json({ error: 'Plan durationDays is required' });
     }
 
+    if (slaHours !== undefined && slaHours !== null && !isValidSlaHours(slaHours)) {
+      return res.status(400).json({ error: 'slaHours must be a positive whole number of hours' });
+    }
+
+    if (followUpRounds !== undefined && followUpRounds !== null && !isValidFollowUpRounds(followUpRounds)) {
+      return res.status(400).json({ error: 'followUpRounds must be a whole number of zero or more' });
+    }
+
     const plan = await prisma.plan.create({
       data: {
         name,
@@ -95,6 +113,10 @@ router.post('/', requireAuth, async (req, res) => {
         maxInterpretations: maxInterpretations !== undefined ? Number(maxInterpretations) : null,
         letterQuota: letterQuota !== undefined ? Number(letterQuota) : null,
         audioMinutesQuota: audioMinutesQuota !== undefined ? Number(audioMinutesQuota) : null,
+        slaHours: slaHours !== undefined && slaHours !== null ? Number(slaHours) : null,
+        ...(followUpRounds !== undefined && {
+          followUpRounds: followUpRounds !== null ? Number(followUpRounds) : null,
+        }),
         countryCodes: countryCodes ?? null,
         features: features ?? [],
         isActive: Boolean(isActive),
@@ -108,12 +130,8 @@ router.post('/', requireAuth, async (req, res) => {
   }
 });
 
-router.patch('/:id', requireAuth, async (req, res) => {
+router.patch('/:id', requireAuth, requirePermission('plans:write'), async (req, res) => {
   try {
-    if (req.user!.role !== 'super_admin') {
-      return res.status(403).json({ error: 'Forbidden - Super admin access required' });
-    }
-
     const { id } = req.params;
 
     const existingPlan = await prisma.plan.findUnique({ where: { id } });
@@ -133,6 +151,8 @@ router.patch('/:id', requireAuth, async (req, res) => {
       maxInterpretations,
       letterQuota,
       audioMinutesQuota,
+      slaHours,
+      followUpRounds,
       countryCodes,
       features,
       isActive,
@@ -160,6 +180,18 @@ router.patch('/:id', requireAuth, async (req, res) => {
     if (audioMinutesQuota !== undefined) {
       updateData.audioMinutesQuota = audioMinutesQuota !== null ? Number(audioMinutesQuota) : null;
     }
+    if (slaHours !== undefined) {
+      if (slaHours !== null && !isValidSlaHours(slaHours)) {
+        return res.status(400).json({ error: 'slaHours must be a positive whole number of hours' });
+      }
+      updateData.slaHours = slaHours !== null ? Number(slaHours) : null;
+    }
+    if (followUpRounds !== undefined) {
+      if (followUpRounds !== null && !isValidFollowUpRounds(followUpRounds)) {
+        return res.status(400).json({ error: 'followUpRounds must be a whole number of zero or more' });
+      }
+      updateData.followUpRounds = followUpRounds !== null ? Number(followUpRounds) : null;
+    }
     if (countryCodes !== undefined) updateData.countryCodes = countryCodes;
     if (features !== undefined) updateData.features = features;
     if (isActive !== undefined) updateData.isActive = Boolean(isActive);
@@ -176,6 +208,48 @@ router.patch('/:id', requireAuth, async (req, res) => {
   }
 });
 
+// Current usage and limits, plus the ledger of what used them (all periods, newest first)
+router.get('/usage', requireAuth, async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const query = req.query as Record<string, unknown>;
+
+    const page = parsePageParams(query, { defaultLimit: 50 });
+    if ('error' in page) {
+      return res.status(400).json({ error: page.error });
+    }
+
+    const subscription = await prisma.userPlan.findFirst({
+      where: {
+        userId,
+        isActive: true,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+      include: { plan: true },
+      orderBy: { startedAt: 'desc' },
+    });
+
+    const { events, nextCursor } = await listUsageEvents({ userId }, page);
+
+    return res.json({
+      subscription: subscription
+        ? {
+            id: subscription.id,
+            plan: { id: subscription.plan.id, name: subscription.plan.name },
+            periodStartedAt: subscription.startedAt.toISOString(),
+            expiresAt: subscription.expiresAt?.toISOString() ?? null,
+            usage: getUsageSummary(subscription),
+          }
+        : null,
+      events,
+      nextCursor,
+    });
+  } catch (error) {
+    console.error('[Plans] Usage fetch error:', error);
+    return res.status(500).json({ error: 'Failed to fetch usage' });
+  }
+});
+
 router.post('/subscribe', requireAuth, async (req, res) => {
   try {
     const userId = req.user!.userId;
@@ -209,12 +283,17 @@ router.post('/subscribe', requireAuth, async (req, res) => {
           isActive: true,
           lettersUsed: 0,
           audioMinutesUsed: 0,
+          interpretationsUsed: 0,
+          dreamsUsed: 0,
         },
         update: {
           expiresAt,
           isActive: true,
           lettersUsed: 0,
           audioMinutesUsed: 0,
+          interpretationsUsed: 0,
+          dreamsUsed: 0,
+          startedAt: new Date(),
         },
         include: {
           plan: true,
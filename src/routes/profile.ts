@@ -1,13 +1,22 @@
 import { Router } from 'express';
 import prisma from '../lib/prisma';
-import { requireAuth } from '../middleware/auth';
-import { clearSessionCookie } from '../utils/session';
+import { forbidImpersonation, requireAuth } from '../middleware/auth';
+import { bumpTokenVersion, clearSessionCookie, reissueAccessToken, revokeUserSessions } from '../utils/session';
+import { hashPassword, MIN_PASSWORD_LENGTH, verifyPassword } from '../utils/auth';
+import { generateOpaqueToken, hashOpaqueToken } from '../utils/tokens';
+import { emailChangeEmail } from '../utils/emails';
+import { recordSecurityEvent } from '../utils/securityEvents';
+import { recalculateInterpreterRating } from '../utils/ratings';
+import { sendMail } from '../lib/mailer';
 import { writeFile, mkdir } from 'fs/promises';
 import { existsSync } from 'fs';
 import { join } from 'path';
 
 const router = Router();
 
+const EMAIL_CHANGE_TTL_HOURS = Number(process.env.EMAIL_CHANGE_TTL_HOURS || 24);
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
 router.patch('/update', requireAuth, async (req, res) => {
   try {
     const { fullName, bio, avatarUrl } = req.body ?? {};
@@ -123,14 +132,162 @@ router.post('/upload-avatar', requireAuth, async (req, res) => {
   }
 });
 
-router.delete('/account', requireAuth, async (req, res) => {
+router.post('/change-password', requireAuth, forbidImpersonation, async (req, res) => {
+  try {
+    const { currentPassword, newPassword } = req.body ?? {};
+
+    if (!currentPassword || typeof currentPassword !== 'string' || !newPassword || typeof newPassword !== 'string') {
+      return res.status(400).json({ error: 'Current password and new password are required' });
+    }
+
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.userId },
+      include: { profile: { select: { role: true } } },
+    });
+
+    if (!user || !user.profile) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (!(await verifyPassword(currentPassword, user.password))) {
+      return res.status(400).json({ error: 'Current password is incorrect', code: 'INVALID_PASSWORD' });
+    }
+
+    const hashedPassword = await hashPassword(newPassword);
+    const sessionId = req.user!.sessionId!;
+
+    const { tokenVersion, revokedSessions } = await prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: user.id },
+        data: { password: hashedPassword, passwordChangedAt: new Date() },
+      });
+
+      return {
+        tokenVersion: await bumpTokenVersion(user.id, tx),
+        revokedSessions: await revokeUserSessions(user.id, 'password_changed', { exceptSessionId: sessionId, db: tx }),
+      };
+    });
+
+    // Keep the session that made the change signed in. The token is also returned
+    // for clients that send it in the Authorization header rather than the cookie.
+    const token = reissueAccessToken(
+      res,
+      { id: user.id, email: user.email, role: user.profile.role, tokenVersion },
+      sessionId
+    );
+
+    await recordSecurityEvent(req, {
+      type: 'password_changed',
+      userId: user.id,
+      email: user.email,
+      details: { revokedSessions },
+    });
+
+    return res.json({ message: 'Password changed successfully', revokedSessions, token });
+  } catch (error) {
+    console.error('[Profile] Change password error:', error);
+    return res.status(500).json({ error: 'Failed to change password' });
+  }
+});
+
+// The new address only takes effect once confirmed through POST /api/auth/verify-email
+router.post('/change-email', requireAuth, forbidImpersonation, async (req, res) => {
+  try {
+    const { currentPassword, newEmail } = req.body ?? {};
+
+    if (!currentPassword || typeof currentPassword !== 'string' || !newEmail || typeof newEmail !== 'string') {
+      return res.status(400).json({ error: 'Current password and new email are required' });
+    }
+
+    const email = newEmail.trim().toLowerCase();
+
+    if (!EMAIL_PATTERN.test(email)) {
+      return res.status(400).json({ error: 'Invalid email address' });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: req.user!.userId } });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (!(await verifyPassword(currentPassword, user.password))) {
+      return res.status(400).json({ error: 'Current password is incorrect', code: 'INVALID_PASSWORD' });
+    }
+
+    if (email === user.email.toLowerCase()) {
+      return res.status(400).json({ error: 'This is already your email address' });
+    }
+
+    const [existingUser, existingProfile] = await Promise.all([
+      prisma.user.findUnique({ where: { email } }),
+      prisma.profile.findUnique({ where: { email } }),
+    ]);
+
+    if (existingUser || existingProfile) {
+      return res.status(409).json({ error: 'This email is already in use', code: 'EMAIL_IN_USE' });
+    }
+
+    const token = generateOpaqueToken();
+
+    await prisma.$transaction(async (tx) => {
+      // Only the most recent pending change can be confirmed
+      await tx.emailVerificationToken.updateMany({
+        where: { userId: user.id, usedAt: null, email: { not: user.email } },
+        data: { usedAt: new Date() },
+      });
+
+      await tx.emailVerificationToken.create({
+        data: {
+          userId: user.id,
+          email,
+          tokenHash: hashOpaqueToken(token),
+          expiresAt: new Date(Date.now() + EMAIL_CHANGE_TTL_HOURS * 60 * 60 * 1000),
+        },
+      });
+    });
+
+    await sendMail(emailChangeEmail(email, token, EMAIL_CHANGE_TTL_HOURS));
+
+    await recordSecurityEvent(req, {
+      type: 'email_change_requested',
+      userId: user.id,
+      email: user.email,
+      details: { newEmail: email },
+    });
+
+    return res.status(202).json({ message: 'Check your new email address to confirm the change', pendingEmail: email });
+  } catch (error) {
+    console.error('[Profile] Change email error:', error);
+    return res.status(500).json({ error: 'Failed to request email change' });
+  }
+});
+
+router.delete('/account', requireAuth, forbidImpersonation, async (req, res) => {
   try {
     const userId = req.user!.userId;
 
     await prisma.$transaction(async (tx) => {
+      // The account's dreams are deleted with it, and so are the ratings given on them
+      const rated = await tx.dreamRating.findMany({
+        where: { dreamerId: userId },
+        select: { interpreterId: true },
+        distinct: ['interpreterId'],
+      });
+
       await tx.user.delete({
         where: { id: userId },
       });
+
+      for (const { interpreterId } of rated) {
+        if (interpreterId && interpreterId !== userId) {
+          await recalculateInterpreterRating(tx, interpreterId);
+        }
+      }
     });
 
     clearSessionCookie(res);
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import prisma from '../lib/prisma';
 import { requireAuth } from '../middleware/auth';
+import { hasPermission } from '../utils/permissions';
 
 const router = Router();
 
@@ -8,12 +9,7 @@ router.get('/', requireAuth, async (req, res) => {
   try {
     const userId = req.user!.userId;
 
-    const profile = await prisma.profile.findUnique({
-      where: { id: userId },
-      select: { role: true },
-    });
-
-    const isAdmin = profile?.role === 'admin' || profile?.role === 'super_admin';
+    const isAdmin = await hasPermission(req.user!.role, 'requests:read_all');
 
     const requests = await prisma.request.findMany({
       where: isAdmin
@@ -132,12 +128,7 @@ router.get('/:id', requireAuth, async (req, res) => {
       return res.status(404).json({ error: 'Request not found' });
     }
 
-    const profile = await prisma.profile.findUnique({
-      where: { id: userId },
-      select: { role: true },
-    });
-
-    const isAdmin = profile?.role === 'admin' || profile?.role === 'super_admin';
+    const isAdmin = await hasPermission(req.user!.role, 'requests:read_all');
 
     const hasAccess =
       isAdmin ||
@@ -173,28 +164,23 @@ router.patch('/:id', requireAuth, async (req, res) => {
       return res.status(404).json({ error: 'Request not found' });
     }
 
-    const profile = await prisma.profile.findUnique({
-      where: { id: requesterId },
-      select: { role: true },
-    });
-
-    const role = profile?.role;
-    const isSuperAdmin = role === 'super_admin';
-    const isAdmin = role === 'admin';
+    const role = req.user!.role;
+    const canManage = await hasPermission(role, 'requests:manage');
+    const canAssign = await hasPermission(role, 'requests:assign');
     const isDreamer = existingRequest.dreamerId === requesterId;
     const isInterpreter = existingRequest.interpreterId === requesterId;
 
-    if (!isSuperAdmin && !isAdmin && !isDreamer && !isInterpreter) {
+    if (!canManage && !canAssign && !isDreamer && !isInterpreter) {
       return res.status(403).json({ error: 'Forbidden' });
     }
 
     if (interpreterId) {
-      if (!isAdmin && !isSuperAdmin) {
+      if (!canAssign) {
         return res.status(403).json({ error: 'Only admins can assign interpreters' });
       }
     }
 
-    if (status && !isSuperAdmin && !isDreamer && !isInterpreter) {
+    if (status && !canManage && !isDreamer && !isInterpreter) {
       return res.status(403).json({ error: 'Only the dreamer, assigned interpreter, or super admin can update status' });
     }
 
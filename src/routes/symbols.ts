@@ -0,0 +1,385 @@
+import { Router } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { normalizeArabic } from '../utils/arabic';
+import { hasPermission } from '../utils/permissions';
+import { buildPage, parsePageParams } from '../utils/pagination';
+import {
+  buildSymbolSearchText,
+  formatSymbol,
+  formatSymbolReference,
+  isValidSymbolSlug,
+  parseSynonyms,
+} from '../utils/symbols';
+
+const router = Router();
+
+router.use(requireAuth);
+
+const referencesOrder = [
+  { sortOrder: 'asc' },
+  { createdAt: 'asc' },
+] satisfies Prisma.SymbolReferenceOrderByWithRelationInput[];
+
+function parseReferenceInput(body: Record<string, unknown>, options: { partial?: boolean } = {}) {
+  const { source, interpretation, citation, sortOrder } = body;
+  const data: Prisma.SymbolReferenceUncheckedUpdateInput = {};
+
+  if (source !== undefined || !options.partial) {
+    if (typeof source !== 'string' || !source.trim()) {
+      return { error: 'source is required' };
+    }
+    data.source = source.trim();
+  }
+
+  if (interpretation !== undefined || !options.partial) {
+    if (typeof interpretation !== 'string' || !interpretation.trim()) {
+      return { error: 'interpretation is required' };
+    }
+    data.interpretation = interpretation.trim();
+  }
+
+  if (citation !== undefined) {
+    if (citation !== null && typeof citation !== 'string') {
+      return { error: 'citation must be a string or null' };
+    }
+    data.citation = citation?.trim() || null;
+  }
+
+  if (sortOrder !== undefined) {
+    if (!Number.isInteger(sortOrder)) {
+      return { error: 'sortOrder must be a whole number' };
+    }
+    data.sortOrder = sortOrder as number;
+  }
+
+  return { data };
+}
+
+// GET /api/symbols?q=ثعبان&limit=20&cursor= — name and synonym search, alphabetical
+router.get('/', requirePermission('symbols:use'), async (req, res) => {
+  try {
+    const query = req.query as Record<string, unknown>;
+
+    const page = parsePageParams(query);
+    if ('error' in page) {
+      return res.status(400).json({ error: page.error });
+    }
+
+    const q = typeof query.q === 'string' ? normalizeArabic(query.q.trim()) : '';
+    const includeInactive =
+      query.includeInactive === 'true' && (await hasPermission(req.user!.role, 'symbols:write'));
+
+    const rows = await prisma.dreamSymbol.findMany({
+      where: {
+        ...(!includeInactive && { isActive: true }),
+        ...(q && { searchText: { contains: q } }),
+      },
+      orderBy: [{ name: 'asc' }, { id: 'asc' }],
+      take: page.limit + 1,
+      ...(page.cursor && { cursor: { id: page.cursor }, skip: 1 }),
+      include: { _count: { select: { tags: true } } },
+    });
+
+    const { items, nextCursor } = buildPage(rows, page.limit);
+
+    return res.json({ symbols: items.map(formatSymbol), nextCursor });
+  } catch (error) {
+    console.error('[Symbols] Search error:', error);
+    return res.status(500).json({ error: 'Failed to search symbols' });
+  }
+});
+
+router.get('/:id', requirePermission('symbols:use'), async (req, res) => {
+  try {
+    const symbol = await prisma.dreamSymbol.findUnique({
+      where: { id: req.params.id },
+      include: {
+        references: { orderBy: referencesOrder },
+        _count: { select: { tags: true } },
+      },
+    });
+
+    if (!symbol) {
+      return res.status(404).json({ error: 'Symbol not found' });
+    }
+
+    return res.json({ symbol: formatSymbol(symbol) });
+  } catch (error) {
+    console.error('[Symbols] Fetch error:', error);
+    return res.status(500).json({ error: 'Failed to fetch symbol' });
+  }
+});
+
+// Dreams tagged with a symbol, newest first. Interpreters only see their own dreams.
+router.get('/:id/dreams', requirePermission('symbols:use'), async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const role = req.user!.role;
+
+    const page = parsePageParams(req.query as Record<string, unknown>);
+    if ('error' in page) {
+      return res.status(400).json({ error: page.error });
+    }
+
+    const symbol = await prisma.dreamSymbol.findUnique({ where: { id: req.params.id }, select: { id: true } });
+
+    if (!symbol) {
+      return res.status(404).json({ error: 'Symbol not found' });
+    }
+
+    const where: Prisma.DreamWhereInput = {
+      symbolTags: { some: { symbolId: symbol.id } },
+      ...(!(await hasPermission(role, 'dreams:read_all')) && { interpreterId: userId }),
+    };
+
+    const [rows, total] = await Promise.all([
+      prisma.dream.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: page.limit + 1,
+        ...(page.cursor && { cursor: { id: page.cursor }, skip: 1 }),
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          createdAt: true,
+          interpretedAt: true,
+          interpreter: { select: { id: true, fullName: true } },
+        },
+      }),
+      prisma.dream.count({ where }),
+    ]);
+
+    const { items, nextCursor } = buildPage(rows, page.limit);
+
+    return res.json({ dreams: items, nextCursor, total });
+  } catch (error) {
+    console.error('[Symbols] Dreams fetch error:', error);
+    return res.status(500).json({ error: 'Failed to fetch dreams for symbol' });
+  }
+});
+
+router.post('/', requirePermission('symbols:write'), async (req, res) => {
+  try {
+    const { slug, name, synonyms = [], description, references = [] } = req.body ?? {};
+
+    if (!isValidSymbolSlug(slug)) {
+      return res.status(400).json({ error: 'slug must be lowercase letters, digits, - or _ (at most 64 characters)' });
+    }
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'name is required' });
+    }
+
+    const parsedSynonyms = parseSynonyms(synonyms);
+    if ('error' in parsedSynonyms) {
+      return res.status(400).json({ error: parsedSynonyms.error });
+    }
+
+    if (description !== undefined && description !== null && typeof description !== 'string') {
+      return res.status(400).json({ error: 'description must be a string' });
+    }
+
+    if (!Array.isArray(references)) {
+      return res.status(400).json({ error: 'references must be a list' });
+    }
+
+    const parsedReferences = [];
+    for (const reference of references) {
+      const parsed = parseReferenceInput(reference ?? {});
+      if ('error' in parsed) {
+        return res.status(400).json({ error: `references: ${parsed.error}` });
+      }
+      parsedReferences.push(parsed.data as Prisma.SymbolReferenceCreateWithoutSymbolInput);
+    }
+
+    const symbol = await prisma.dreamSymbol.create({
+      data: {
+        slug,
+        name: name.trim(),
+        synonyms: parsedSynonyms,
+        description: description?.trim() || null,
+        searchText: buildSymbolSearchText({ slug, name: name.trim(), synonyms: parsedSynonyms }),
+        references: { create: parsedReferences },
+      },
+      include: { references: { orderBy: referencesOrder } },
+    });
+
+    return res.status(201).json({ symbol: formatSymbol(symbol) });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ error: 'A symbol with this slug already exists', code: 'SYMBOL_EXISTS' });
+    }
+    console.error('[Symbols] Create error:', error);
+    return res.status(500).json({ error: 'Failed to create symbol' });
+  }
+});
+
+router.patch('/:id', requirePermission('symbols:write'), async (req, res) => {
+  try {
+    const existing = await prisma.dreamSymbol.findUnique({ where: { id: req.params.id } });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Symbol not found' });
+    }
+
+    const { slug, name, synonyms, description, isActive } = req.body ?? {};
+    const updateData: Prisma.DreamSymbolUpdateInput = {};
+
+    if (slug !== undefined) {
+      if (!isValidSymbolSlug(slug)) {
+        return res.status(400).json({ error: 'slug must be lowercase letters, digits, - or _ (at most 64 characters)' });
+      }
+      updateData.slug = slug;
+    }
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({ error: 'name must be a non-empty string' });
+      }
+      updateData.name = name.trim();
+    }
+
+    let nextSynonyms = parseSynonyms(existing.synonyms);
+    if (synonyms !== undefined) {
+      nextSynonyms = parseSynonyms(synonyms);
+      if ('error' in nextSynonyms) {
+        return res.status(400).json({ error: nextSynonyms.error });
+      }
+      updateData.synonyms = nextSynonyms;
+    }
+
+    if (description !== undefined) {
+      if (description !== null && typeof description !== 'string') {
+        return res.status(400).json({ error: 'description must be a string or null' });
+      }
+      updateData.description = description?.trim() || null;
+    }
+
+    if (isActive !== undefined) {
+      if (typeof isActive !== 'boolean') {
+        return res.status(400).json({ error: 'isActive must be boolean' });
+      }
+      updateData.isActive = isActive;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return res.status(400).json({ error: 'No valid updates provided' });
+    }
+
+    updateData.searchText = buildSymbolSearchText({
+      slug: (updateData.slug as string | undefined) ?? existing.slug,
+      name: (updateData.name as string | undefined) ?? existing.name,
+      synonyms: 'error' in nextSynonyms ? [] : nextSynonyms,
+    });
+
+    const symbol = await prisma.dreamSymbol.update({
+      where: { id: existing.id },
+      data: updateData,
+      include: { references: { orderBy: referencesOrder }, _count: { select: { tags: true } } },
+    });
+
+    return res.json({ symbol: formatSymbol(symbol) });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ error: 'A symbol with this slug already exists', code: 'SYMBOL_EXISTS' });
+    }
+    console.error('[Symbols] Update error:', error);
+    return res.status(500).json({ error: 'Failed to update symbol' });
+  }
+});
+
+// Symbols are retired rather than deleted so existing tags keep their meaning
+router.delete('/:id', requirePermission('symbols:write'), async (req, res) => {
+  try {
+    const { count } = await prisma.dreamSymbol.updateMany({
+      where: { id: req.params.id },
+      data: { isActive: false },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Symbol not found' });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('[Symbols] Delete error:', error);
+    return res.status(500).json({ error: 'Failed to retire symbol' });
+  }
+});
+
+router.post('/:id/references', requirePermission('symbols:write'), async (req, res) => {
+  try {
+    const symbol = await prisma.dreamSymbol.findUnique({ where: { id: req.params.id }, select: { id: true } });
+
+    if (!symbol) {
+      return res.status(404).json({ error: 'Symbol not found' });
+    }
+
+    const parsed = parseReferenceInput(req.body ?? {});
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const reference = await prisma.symbolReference.create({
+      data: { ...(parsed.data as Prisma.SymbolReferenceCreateWithoutSymbolInput), symbolId: symbol.id },
+    });
+
+    return res.status(201).json({ reference: formatSymbolReference(reference) });
+  } catch (error) {
+    console.error('[Symbols] Reference create error:', error);
+    return res.status(500).json({ error: 'Failed to add reference' });
+  }
+});
+
+router.patch('/:id/references/:referenceId', requirePermission('symbols:write'), async (req, res) => {
+  try {
+    const existing = await prisma.symbolReference.findFirst({
+      where: { id: req.params.referenceId, symbolId: req.params.id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Reference not found' });
+    }
+
+    const parsed = parseReferenceInput(req.body ?? {}, { partial: true });
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    if (Object.keys(parsed.data).length === 0) {
+      return res.status(400).json({ error: 'No valid updates provided' });
+    }
+
+    const reference = await prisma.symbolReference.update({
+      where: { id: existing.id },
+      data: parsed.data,
+    });
+
+    return res.json({ reference: formatSymbolReference(reference) });
+  } catch (error) {
+    console.error('[Symbols] Reference update error:', error);
+    return res.status(500).json({ error: 'Failed to update reference' });
+  }
+});
+
+router.delete('/:id/references/:referenceId', requirePermission('symbols:write'), async (req, res) => {
+  try {
+    const { count } = await prisma.symbolReference.deleteMany({
+      where: { id: req.params.referenceId, symbolId: req.params.id },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Reference not found' });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('[Symbols] Reference delete error:', error);
+    return res.status(500).json({ error: 'Failed to delete reference' });
+  }
+});
+
+export default router;
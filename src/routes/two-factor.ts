@@ -0,0 +1,327 @@
+import { Router } from 'express';
+import prisma from '../lib/prisma';
+import { allowWithoutTwoFactor, forbidImpersonation, requireAuth } from '../middleware/auth';
+import { formatLoginResponse, verifyChallengeToken, verifyPassword } from '../utils/auth';
+import { startSession } from '../utils/session';
+import { hashOpaqueToken } from '../utils/tokens';
+import { recordSecurityEvent } from '../utils/securityEvents';
+import { checkLoginAllowed, clearLoginFailures, recordLoginFailure } from '../lib/loginThrottle';
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  openTotpSecret,
+  sealTotpSecret,
+  verifyTotp,
+} from '../utils/totp';
+
+const router = Router();
+
+async function replaceRecoveryCodes(userId: string) {
+  const codes = generateRecoveryCodes();
+
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: codes.map((code) => ({
+        userId,
+        codeHash: hashOpaqueToken(normalizeRecoveryCode(code)),
+      })),
+    }),
+  ]);
+
+  return codes;
+}
+
+/**
+ * Check a TOTP code or recovery code for an enrolled user. TOTP codes are
+ * single-use per time step; recovery codes are burned on success.
+ */
+async function verifySecondFactor(
+  user: { id: string; totpSecret: string | null; totpLastUsedStep: number | null },
+  input: { code?: unknown; recoveryCode?: unknown }
+): Promise<'totp' | 'recovery_code' | null> {
+  if (!user.totpSecret) {
+    return null;
+  }
+
+  if (typeof input.code === 'string' && input.code) {
+    const step = verifyTotp(openTotpSecret(user.totpSecret), input.code, {
+      lastUsedStep: user.totpLastUsedStep,
+    });
+
+    if (step === null) {
+      return null;
+    }
+
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+      },
+      data: { totpLastUsedStep: step },
+    });
+
+    return count > 0 ? 'totp' : null;
+  }
+
+  if (typeof input.recoveryCode === 'string' && input.recoveryCode) {
+    const { count } = await prisma.recoveryCode.updateMany({
+      where: {
+        userId: user.id,
+        codeHash: hashOpaqueToken(normalizeRecoveryCode(input.recoveryCode)),
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    });
+
+    return count > 0 ? 'recovery_code' : null;
+  }
+
+  return null;
+}
+
+router.get('/status', allowWithoutTwoFactor, requireAuth, async (req, res) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.userId },
+      select: { totpEnabledAt: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const recoveryCodesRemaining = await prisma.recoveryCode.count({
+      where: { userId: req.user!.userId, usedAt: null },
+    });
+
+    return res.json({
+      enabled: Boolean(user.totpEnabledAt),
+      enabledAt: user.totpEnabledAt?.toISOString() ?? null,
+      recoveryCodesRemaining,
+    });
+  } catch (error) {
+    console.error('[2FA] Status error:', error);
+    return res.status(500).json({ error: 'Failed to load two-factor status' });
+  }
+});
+
+router.post('/setup', allowWithoutTwoFactor, requireAuth, forbidImpersonation, async (req, res) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.user!.userId } });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (user.totpEnabledAt) {
+      return res.status(400).json({ error: 'Two-factor authentication is already enabled', code: 'TWO_FACTOR_ALREADY_ENABLED' });
+    }
+
+    const secret = generateTotpSecret();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { totpSecret: sealTotpSecret(secret), totpLastUsedStep: null },
+    });
+
+    return res.json({
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email),
+    });
+  } catch (error) {
+    console.error('[2FA] Setup error:', error);
+    return res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+});
+
+router.post('/enable', allowWithoutTwoFactor, requireAuth, forbidImpersonation, async (req, res) => {
+  try {
+    const { code } = req.body ?? {};
+
+    if (!code || typeof code !== 'string') {
+      return res.status(400).json({ error: 'code is required' });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: req.user!.userId } });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (user.totpEnabledAt) {
+      return res.status(400).json({ error: 'Two-factor authentication is already enabled', code: 'TWO_FACTOR_ALREADY_ENABLED' });
+    }
+
+    if (!user.totpSecret) {
+      return res.status(400).json({ error: 'Start setup before enabling two-factor authentication' });
+    }
+
+    const step = verifyTotp(openTotpSecret(user.totpSecret), code);
+
+    if (step === null) {
+      return res.status(400).json({ error: 'Invalid verification code', code: 'INVALID_TWO_FACTOR_CODE' });
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { totpEnabledAt: new Date(), totpLastUsedStep: step },
+    });
+
+    const recoveryCodes = await replaceRecoveryCodes(user.id);
+
+    await recordSecurityEvent(req, { type: 'two_factor_enabled', userId: user.id, email: user.email });
+
+    return res.json({ enabled: true, recoveryCodes });
+  } catch (error) {
+    console.error('[2FA] Enable error:', error);
+    return res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+  }
+});
+
+router.post('/disable', requireAuth, forbidImpersonation, async (req, res) => {
+  try {
+    const { password, code, recoveryCode } = req.body ?? {};
+
+    if (!password || typeof password !== 'string') {
+      return res.status(400).json({ error: 'password is required' });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: req.user!.userId } });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (!user.totpEnabledAt) {
+      return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    }
+
+    const validPassword = await verifyPassword(password, user.password);
+    const method = validPassword ? await verifySecondFactor(user, { code, recoveryCode }) : null;
+
+    if (!method) {
+      return res.status(400).json({ error: 'Invalid password or verification code', code: 'INVALID_TWO_FACTOR_CODE' });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: user.id },
+        data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null },
+      });
+      await tx.recoveryCode.deleteMany({ where: { userId: user.id } });
+    });
+
+    await recordSecurityEvent(req, { type: 'two_factor_disabled', userId: user.id, email: user.email });
+
+    return res.json({ enabled: false });
+  } catch (error) {
+    console.error('[2FA] Disable error:', error);
+    return res.status(500).json({ error: 'Failed to disable two-factor authentication' });
+  }
+});
+
+router.post('/recovery-codes', requireAuth, forbidImpersonation, async (req, res) => {
+  try {
+    const { code } = req.body ?? {};
+
+    const user = await prisma.user.findUnique({ where: { id: req.user!.userId } });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (!user.totpEnabledAt) {
+      return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    }
+
+    const method = await verifySecondFactor(user, { code });
+
+    if (!method) {
+      return res.status(400).json({ error: 'Invalid verification code', code: 'INVALID_TWO_FACTOR_CODE' });
+    }
+
+    const recoveryCodes = await replaceRecoveryCodes(user.id);
+
+    await recordSecurityEvent(req, { type: 'recovery_codes_regenerated', userId: user.id, email: user.email });
+
+    return res.json({ recoveryCodes });
+  } catch (error) {
+    console.error('[2FA] Recovery codes error:', error);
+    return res.status(500).json({ error: 'Failed to regenerate recovery codes' });
+  }
+});
+
+// Second step of login for accounts with 2FA enabled
+router.post('/verify', async (req, res) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body ?? {};
+
+    const userId = typeof challengeToken === 'string' ? verifyChallengeToken(challengeToken) : null;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Invalid or expired login challenge', code: 'INVALID_CHALLENGE' });
+    }
+
+    const throttleKey = `2fa:${userId}`;
+    const decision = await checkLoginAllowed([throttleKey]);
+
+    if (!decision.allowed) {
+      res.set('Retry-After', String(decision.retryAfterSeconds));
+      return res.status(429).json({
+        error: 'Too many failed verification attempts. Try again later',
+        code: decision.reason === 'locked' ? 'LOGIN_LOCKED' : 'LOGIN_THROTTLED',
+        retryAfterSeconds: decision.retryAfterSeconds,
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: { profile: true },
+    });
+
+    if (!user || !user.profile || !user.totpEnabledAt) {
+      return res.status(401).json({ error: 'Invalid or expired login challenge', code: 'INVALID_CHALLENGE' });
+    }
+
+    if (user.suspendedAt) {
+      return res.status(403).json({ error: 'This account has been suspended', code: 'ACCOUNT_SUSPENDED' });
+    }
+
+    const method = await verifySecondFactor(user, { code, recoveryCode });
+
+    if (!method) {
+      const lockedKeys = await recordLoginFailure([throttleKey]);
+
+      await recordSecurityEvent(req, {
+        type: lockedKeys.length > 0 ? 'two_factor_locked' : 'two_factor_failed',
+        userId: user.id,
+        email: user.email,
+      });
+
+      return res.status(401).json({ error: 'Invalid verification code', code: 'INVALID_TWO_FACTOR_CODE' });
+    }
+
+    await clearLoginFailures(throttleKey);
+
+    if (method === 'recovery_code') {
+      await recordSecurityEvent(req, { type: 'recovery_code_used', userId: user.id, email: user.email });
+    }
+
+    await startSession(req, res, {
+      id: user.id,
+      email: user.email,
+      role: user.profile.role,
+      tokenVersion: user.tokenVersion,
+    });
+
+    return res.json(formatLoginResponse(user, user.profile));
+  } catch (error) {
+    console.error('[2FA] Verify error:', error);
+    return res.status(500).json({ error: 'Failed to verify login' });
+  }
+});
+
+export default router;
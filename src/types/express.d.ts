@@ -1,9 +1,14 @@
-import { JWTPayload } from '../utils/auth';
+import { AuthUser } from '../utils/auth';
+import { ApiKeyScope } from '../utils/apiKeys';
 
 declare global {
   namespace Express {
     interface Request {
-      user?: JWTPayload;
+      user?: AuthUser;
+      // Set by allowApiKey; API keys are rejected on routes that don't declare a scope
+      apiKeyScope?: ApiKeyScope;
+      // Set by allowWithoutTwoFactor on the routes admins need before enrolling in 2FA
+      twoFactorExempt?: boolean;
     }
   }
 }
@@ -0,0 +1,167 @@
+import { normalizeArabic } from './arabic';
+
+// Masking is a first pass before publishing; an admin reads every dream
+// before it goes public and can edit whatever this misses.
+
+export const EMAIL_MASK = '[بريد إلكتروني]';
+export const PHONE_MASK = '[رقم هاتف]';
+export const NAME_MASK = '[اسم]';
+
+const EMAIL_PATTERN = /[^\s@<>()[\]]+@[^\s@<>()[\]]+\.[^\s@<>()[\]]+/g;
+// Runs of digits (any script) with the separators people put in phone numbers
+const PHONE_PATTERN = /(?:\+|00)?[0-9٠-٩۰-۹](?:[0-9٠-٩۰-۹\s\-–().]*[0-9٠-٩۰-۹])?/g;
+const MIN_PHONE_DIGITS = 7;
+// 2024-01-15, 15/01/2024 and the like are left alone
+const DATE_PATTERN = /^(?:\d{4}[-/.]\d{1,2}[-/.]\d{1,2}|\d{1,2}[-/.]\d{1,2}[-/.]\d{4})$/;
+
+// Words that introduce a name, so the word after them is masked too
+const NAME_INTRODUCERS = new Set(
+  [
+    'اسمه',
+    'اسمها',
+    'اسمي',
+    'يدعى',
+    'تدعى',
+    'المدعو',
+    'المدعوة',
+    'الحاج',
+    'الحاجة',
+    'الشيخ',
+    'الأستاذ',
+    'الأستاذة',
+    'الدكتور',
+    'الدكتورة',
+    'mr',
+    'mrs',
+    'ms',
+    'dr',
+  ].map(normalizeArabic)
+);
+
+// Parts of compound names that are ordinary words on their own ("الله", "الدين").
+// They're only masked as part of the full name or a compound like "عبد الله".
+const COMPOUND_NAME_PARTS = new Set(
+  ['عبد', 'الله', 'الرحمن', 'الرحيم', 'الدين', 'بن', 'ابن', 'بنت', 'أبو', 'أبي', 'أم', 'آل'].map(normalizeArabic)
+);
+const COMPOUND_PREFIXES = new Set(['عبد', 'أبو', 'أبي', 'أم'].map(normalizeArabic));
+
+// Single-letter prefixes attached to Arabic words ("ومحمد", "لأحمد")
+const ATTACHED_PREFIXES = ['و', 'ف', 'ب', 'ل', 'ك', 'وب', 'ول', 'فب', 'فل'];
+
+const WORD_PATTERN = /[\p{L}\p{M}]+/gu;
+
+function normalizeWord(word: string) {
+  return normalizeArabic(word).replace(/[^\p{L}]/gu, '');
+}
+
+function wordMatches(word: string, term: string) {
+  if (word === term) return true;
+  return ATTACHED_PREFIXES.some((prefix) => word === prefix + term);
+}
+
+/** Name phrases to look for: the whole name, compounds within it, and its other words on their own. */
+function buildNameTerms(names: string[]) {
+  const terms: string[][] = [];
+
+  for (const name of names) {
+    const words = (name.match(WORD_PATTERN) ?? []).map(normalizeWord).filter((word) => word.length >= 2);
+    if (words.length === 0) continue;
+
+    terms.push(words);
+    words.forEach((word, index) => {
+      if (COMPOUND_PREFIXES.has(word) && words[index + 1]) {
+        // Written both ways: "عبد الله" and "عبدالله"
+        terms.push([word, words[index + 1]], [word + words[index + 1]]);
+      } else if (!COMPOUND_NAME_PARTS.has(word)) {
+        terms.push([word]);
+      }
+    });
+  }
+
+  // Longest phrases first so "عبد الله أحمد" is masked once, not word by word
+  return terms.sort((a, b) => b.length - a.length);
+}
+
+function maskNames(text: string, names: string[]) {
+  const words = Array.from(text.matchAll(WORD_PATTERN), (match) => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+    normalized: normalizeWord(match[0]),
+  }));
+  const terms = buildNameTerms(names);
+  const ranges: Array<{ start: number; end: number }> = [];
+
+  // Parts of one name next to each other become a single mask
+  const addRange = (start: number, end: number) => {
+    const last = ranges[ranges.length - 1];
+    if (last && !text.slice(last.end, start).trim()) {
+      last.end = end;
+    } else {
+      ranges.push({ start, end });
+    }
+  };
+
+  for (let i = 0; i < words.length; i += 1) {
+    const term = terms.find(
+      (candidate) =>
+        i + candidate.length <= words.length &&
+        candidate.every((part, offset) =>
+          offset === 0 ? wordMatches(words[i].normalized, part) : words[i + offset].normalized === part
+        )
+    );
+
+    if (term) {
+      addRange(words[i].start, words[i + term.length - 1].end);
+      i += term.length - 1;
+      continue;
+    }
+
+    const previous = words[i - 1]?.normalized;
+    const introduced =
+      previous !== undefined && (NAME_INTRODUCERS.has(previous) || NAME_INTRODUCERS.has(previous.replace(/^و/, '')));
+    if (introduced && !COMPOUND_NAME_PARTS.has(words[i].normalized)) {
+      addRange(words[i].start, words[i].end);
+    }
+  }
+
+  let output = '';
+  let cursor = 0;
+  for (const range of ranges) {
+    output += text.slice(cursor, range.start) + NAME_MASK;
+    cursor = range.end;
+  }
+  output += text.slice(cursor);
+
+  return { text: output, masked: ranges.length };
+}
+
+export interface MaskResult {
+  text: string;
+  masked: number;
+}
+
+/**
+ * Mask emails, phone numbers and the given names (in any spelling variant
+ * normalizeArabic folds together) in free text.
+ */
+export function maskPersonalInfo(text: string, options: { names?: string[] } = {}): MaskResult {
+  let masked = 0;
+
+  let output = text.replace(EMAIL_PATTERN, () => {
+    masked += 1;
+    return EMAIL_MASK;
+  });
+
+  output = output.replace(PHONE_PATTERN, (match) => {
+    const digits = match.replace(/[^0-9٠-٩۰-۹]/g, '').length;
+    if (digits < MIN_PHONE_DIGITS || DATE_PATTERN.test(normalizeArabic(match.trim()))) {
+      return match;
+    }
+    masked += 1;
+    return PHONE_MASK;
+  });
+
+  const names = maskNames(output, options.names ?? []);
+
+  return { text: names.text, masked: masked + names.masked };
+}
@@ -0,0 +1,54 @@
+import crypto from 'crypto';
+import { ApiKey } from '@prisma/client';
+import { generateOpaqueToken, hashOpaqueToken } from './tokens';
+
+export const API_KEY_SCOPES = ['dreams:read', 'dreams:write', 'plans:read'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+const API_KEY_PREFIX = 'mbk_';
+const API_KEY_PATTERN = /^mbk_([a-f0-9]{8})_([A-Za-z0-9_-]{20,})$/;
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+export function looksLikeApiKey(token: string) {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+/**
+ * Create a new key. The full key is shown to the owner once; the prefix
+ * identifies it in listings and only the hash is stored.
+ */
+export function generateApiKey() {
+  const prefix = crypto.randomBytes(4).toString('hex');
+  const key = `${API_KEY_PREFIX}${prefix}_${generateOpaqueToken()}`;
+  return { key, prefix, keyHash: hashOpaqueToken(key) };
+}
+
+export function parseApiKey(key: string): { prefix: string; keyHash: string } | null {
+  const match = API_KEY_PATTERN.exec(key);
+  if (!match) {
+    return null;
+  }
+  return { prefix: match[1], keyHash: hashOpaqueToken(key) };
+}
+
+export function parseScopes(value: unknown): ApiKeyScope[] {
+  return Array.isArray(value) ? value.filter(isApiKeyScope) : [];
+}
+
+export function formatApiKey(apiKey: ApiKey) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: parseScopes(apiKey.scopes),
+    expiresAt: apiKey.expiresAt?.toISOString() ?? null,
+    lastUsedAt: apiKey.lastUsedAt?.toISOString() ?? null,
+    lastUsedIp: apiKey.lastUsedIp,
+    revokedAt: apiKey.revokedAt?.toISOString() ?? null,
+    createdAt: apiKey.createdAt.toISOString(),
+  };
+}
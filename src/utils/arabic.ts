@@ -0,0 +1,69 @@
+// Arabic text normalization for search. Users type the same word with or
+// without diacritics and with interchangeable letter forms, so both the stored
+// search text and the query go through the same folding.
+
+// Tashkeel (harakat, tanween, shadda, sukun), superscript alef and Quranic marks
+const DIACRITICS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06DC\u06DF-\u06E4\u06E7-\u06E8\u06EA-\u06ED]/;
+const TATWEEL = '\u0640';
+
+const LETTER_FOLDS: Record<string, string> = {
+  '\u0622': '\u0627', // alef with madda -> alef
+  '\u0623': '\u0627', // alef with hamza above -> alef
+  '\u0625': '\u0627', // alef with hamza below -> alef
+  '\u0671': '\u0627', // alef wasla -> alef
+  '\u0649': '\u064A', // alef maksura -> ya
+  '\u06CC': '\u064A', // Farsi ya -> ya
+  '\u0629': '\u0647', // ta marbuta -> ha
+};
+
+function foldChar(char: string): string {
+  if (char === TATWEEL || DIACRITICS.test(char)) {
+    return '';
+  }
+
+  const folded = LETTER_FOLDS[char];
+  if (folded) {
+    return folded;
+  }
+
+  const code = char.charCodeAt(0);
+  // Arabic-Indic and Eastern Arabic-Indic digits -> ASCII
+  if (code >= 0x0660 && code <= 0x0669) return String(code - 0x0660);
+  if (code >= 0x06f0 && code <= 0x06f9) return String(code - 0x06f0);
+
+  return char.toLowerCase();
+}
+
+export function normalizeArabic(text: string): string {
+  let output = '';
+  for (const char of text) {
+    output += foldChar(char);
+  }
+  return output;
+}
+
+/**
+ * Normalize while remembering where each output character came from, so a
+ * match found in normalized text can be highlighted in the original.
+ */
+export function normalizeArabicWithOffsets(text: string): { normalized: string; offsets: number[] } {
+  let normalized = '';
+  const offsets: number[] = [];
+  let index = 0;
+
+  for (const char of text) {
+    const folded = foldChar(char);
+    for (let i = 0; i < folded.length; i += 1) {
+      offsets.push(index);
+    }
+    normalized += folded;
+    index += char.length;
+  }
+
+  return { normalized, offsets };
+}
+
+/** Split normalized text into search terms (letters and digits in any script). */
+export function tokenize(normalized: string): string[] {
+  return normalized.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
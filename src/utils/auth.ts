@@ -1,13 +1,34 @@
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
+import { Profile, User } from '@prisma/client';
+import { ApiKeyScope } from './apiKeys';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'change-me-to-a-secure-secret';
 const SALT_ROUNDS = Number(process.env.BCRYPT_SALT_ROUNDS || 10);
 
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Access tokens are short-lived; sessions are kept alive with refresh tokens
+export const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.ACCESS_TOKEN_TTL_SECONDS || 60 * 15);
+const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+const OIDC_STATE_TTL_SECONDS = 10 * 60;
+
 export interface JWTPayload {
   userId: string;
   email: string;
   role: string;
+  sessionId?: string;
+  tokenVersion?: number;
+  iat?: number;
+}
+
+// Attached to req.user by requireAuth; not part of the signed token
+export interface AuthUser extends JWTPayload {
+  twoFactorEnabled: boolean;
+  // Present when a super admin is acting as this user
+  impersonator?: { userId: string; email: string };
+  // Present when the request was authenticated with an API key instead of a session
+  apiKey?: { id: string; scopes: ApiKeyScope[] };
 }
 
 export async function hashPassword(password: string): Promise<string> {
@@ -18,10 +39,10 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
   return bcrypt.compare(password, hash);
 }
 
-export function generateToken(payload: JWTPayload): string {
+export function generateToken(payload: JWTPayload, expiresInSeconds = ACCESS_TOKEN_TTL_SECONDS): string {
   return jwt.sign(payload, JWT_SECRET, {
-    expiresIn: (process.env.JWT_EXPIRES_IN || '7d')
-  } as jwt.SignOptions);
+    expiresIn: expiresInSeconds,
+  });
 }
 
 export function verifyToken(token: string): JWTPayload | null {
@@ -33,5 +54,81 @@ export function verifyToken(token: string): JWTPayload | null {
   }
 }
 
+// Issued after a correct password for accounts with 2FA; only redeemable at /api/auth/2fa/verify
+export function generateChallengeToken(userId: string): string {
+  return jwt.sign({ userId, purpose: 'two_factor' }, JWT_SECRET, {
+    expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+  });
+}
 
+export function verifyChallengeToken(token: string): string | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as { userId?: string; purpose?: string };
+    return payload.purpose === 'two_factor' && payload.userId ? payload.userId : null;
+  } catch {
+    return null;
+  }
+}
 
+export interface OidcLoginState {
+  provider: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectTo?: string;
+  // Set when a signed-in user is linking a provider to their own account
+  linkUserId?: string;
+}
+
+// Carries the PKCE verifier and nonce between the OIDC start and callback requests
+export function generateOidcStateToken(state: OidcLoginState): string {
+  return jwt.sign({ ...state, purpose: 'oidc_state' }, JWT_SECRET, {
+    expiresIn: OIDC_STATE_TTL_SECONDS,
+  });
+}
+
+export function verifyOidcStateToken(token: string): OidcLoginState | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as OidcLoginState & { purpose?: string };
+    if (payload.purpose !== 'oidc_state') {
+      return null;
+    }
+    return {
+      provider: payload.provider,
+      state: payload.state,
+      nonce: payload.nonce,
+      codeVerifier: payload.codeVerifier,
+      redirectTo: payload.redirectTo,
+      linkUserId: payload.linkUserId,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Response body shared by every endpoint that completes a login. */
+export function formatLoginResponse(user: User, profile: Profile) {
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      role: profile.role,
+      emailVerified: Boolean(user.emailVerifiedAt),
+    },
+    profile: {
+      id: profile.id,
+      email: profile.email,
+      fullName: profile.fullName,
+      role: profile.role,
+      avatarUrl: profile.avatarUrl,
+      bio: profile.bio,
+      isAvailable: profile.isAvailable,
+      totalInterpretations: profile.totalInterpretations,
+      rating: profile.rating.toString(),
+      isAdmin: profile.role === 'admin' || profile.role === 'super_admin',
+      isSuperAdmin: profile.role === 'super_admin',
+      createdAt: profile.createdAt.toISOString(),
+      updatedAt: profile.updatedAt.toISOString(),
+    },
+  };
+}
@@ -0,0 +1,186 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { normalizeArabic, normalizeArabicWithOffsets, tokenize } from './arabic';
+
+export interface SearchableDream {
+  id: string;
+  title: string;
+  content: string;
+  description: string | null;
+  interpretation: string | null;
+}
+
+type SearchField = 'title' | 'interpretation' | 'content' | 'description';
+
+// Order matters: snippets are taken from the highest weighted fields first
+const FIELD_WEIGHTS: Array<[SearchField, number]> = [
+  ['title', 4],
+  ['interpretation', 2],
+  ['content', 1.5],
+  ['description', 1],
+];
+
+const MIN_TERM_LENGTH = 2;
+const MAX_TERMS = 10;
+const SNIPPET_CONTEXT = 60;
+const MAX_SNIPPETS = 2;
+
+export function buildDreamSearchText(dream: Omit<SearchableDream, 'id'>) {
+  return normalizeArabic(
+    [dream.title, dream.content, dream.description, dream.interpretation].filter(Boolean).join('\n')
+  );
+}
+
+export async function syncDreamSearchDocument(
+  dream: SearchableDream,
+  db: Prisma.TransactionClient = prisma
+) {
+  const text = buildDreamSearchText(dream);
+  await db.dreamSearchDocument.upsert({
+    where: { dreamId: dream.id },
+    create: { dreamId: dream.id, text },
+    update: { text },
+  });
+}
+
+export function parseSearchTerms(query: string): string[] {
+  const terms = tokenize(normalizeArabic(query)).filter((term) => term.length >= MIN_TERM_LENGTH);
+  return Array.from(new Set(terms)).slice(0, MAX_TERMS);
+}
+
+function countOccurrences(haystack: string, needle: string) {
+  let count = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    count += 1;
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return count;
+}
+
+// description starts out as a copy of content; don't count the same text twice
+function fieldText(dream: SearchableDream, field: SearchField) {
+  if (field === 'description' && dream.description === dream.content) {
+    return null;
+  }
+  return dream[field];
+}
+
+/**
+ * Weighted term frequency per field, scaled by how many of the query terms the
+ * dream matches, with a bonus when the whole query appears as a phrase.
+ */
+export function scoreDream(dream: SearchableDream, terms: string[]) {
+  if (terms.length === 0) {
+    return 0;
+  }
+
+  const phrase = terms.join(' ');
+  const matchedTerms = new Set<string>();
+  let score = 0;
+
+  for (const [field, weight] of FIELD_WEIGHTS) {
+    const text = fieldText(dream, field);
+    if (!text) continue;
+
+    const normalized = normalizeArabic(text);
+
+    for (const term of terms) {
+      const count = countOccurrences(normalized, term);
+      if (count > 0) {
+        matchedTerms.add(term);
+        score += weight * (1 + Math.log(count));
+      }
+    }
+
+    if (terms.length > 1 && normalized.includes(phrase)) {
+      score += weight * 2;
+    }
+  }
+
+  return score * (matchedTerms.size / terms.length);
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function findMatchRanges(text: string, terms: string[]) {
+  const { normalized, offsets } = normalizeArabicWithOffsets(text);
+  const ranges: Array<[number, number]> = [];
+
+  for (const term of terms) {
+    let index = normalized.indexOf(term);
+    while (index !== -1) {
+      const end = index + term.length;
+      // Extend to the next kept character so stripped diacritics stay inside the highlight
+      ranges.push([offsets[index], end < offsets.length ? offsets[end] : text.length]);
+      index = normalized.indexOf(term, end);
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
+
+  return merged;
+}
+
+function buildSnippet(text: string, ranges: Array<[number, number]>) {
+  let start = Math.max(0, ranges[0][0] - SNIPPET_CONTEXT);
+  let end = Math.min(text.length, ranges[0][1] + SNIPPET_CONTEXT);
+
+  // Don't cut words in half
+  while (start > 0 && !/\s/.test(text[start - 1])) start -= 1;
+  while (end < text.length && !/\s/.test(text[end])) end += 1;
+
+  let snippet = start > 0 ? '…' : '';
+  let cursor = start;
+
+  for (const [rangeStart, rangeEnd] of ranges) {
+    if (rangeStart >= end) break;
+    snippet += escapeHtml(text.slice(cursor, rangeStart));
+    snippet += `<mark>${escapeHtml(text.slice(rangeStart, Math.min(rangeEnd, end)))}</mark>`;
+    cursor = Math.min(rangeEnd, end);
+  }
+
+  snippet += escapeHtml(text.slice(cursor, end));
+  if (end < text.length) snippet += '…';
+
+  return snippet.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * HTML snippets around the first matches, with matched words wrapped in
+ * <mark>. Everything else is escaped, so the result is safe to render.
+ */
+export function buildSearchSnippets(dream: SearchableDream, terms: string[]) {
+  const snippets: Array<{ field: SearchField; html: string }> = [];
+
+  for (const [field] of FIELD_WEIGHTS) {
+    if (snippets.length >= MAX_SNIPPETS) break;
+
+    const text = fieldText(dream, field);
+    if (!text) continue;
+
+    const ranges = findMatchRanges(text, terms);
+    if (ranges.length > 0) {
+      snippets.push({ field, html: buildSnippet(text, ranges) });
+    }
+  }
+
+  return snippets;
+}
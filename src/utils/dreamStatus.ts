@@ -0,0 +1,137 @@
+import { DreamStatus, Prisma } from '@prisma/client';
+import { resumeSlaClock } from './sla';
+
+/**
+ * Who is acting on a dream. A user can hold several of these at once, e.g. a
+ * super admin is both manager and assigner.
+ *  - dreamer: owner of the dream
+ *  - interpreter: the interpreter currently assigned to it
+ *  - assigner: holds dreams:assign
+ *  - manager: holds dreams:manage
+ *  - reviewer: Profile.isReviewer or holds dreams:review, and isn't the dream's interpreter
+ *  - system: automatic changes (assignment jobs, expiries)
+ */
+export type DreamActor = 'dreamer' | 'interpreter' | 'assigner' | 'manager' | 'reviewer' | 'system';
+
+type Requirement = 'interpreter' | 'interpretation' | 'reason';
+
+interface TransitionRule {
+  actors: DreamActor[];
+  requires?: Requirement[];
+}
+
+// The whole lifecycle. Anything not listed here is rejected, for every role.
+const TRANSITIONS: Record<DreamStatus, Partial<Record<DreamStatus, TransitionRule>>> = {
+  new: {
+    pending_interpretation: { actors: ['assigner', 'manager', 'system'], requires: ['interpreter'] },
+  },
+  pending_interpretation: {
+    pending_inquiry: { actors: ['interpreter', 'manager'] },
+    interpreted: { actors: ['interpreter', 'manager'], requires: ['interpretation'] },
+    // Interpreters with Profile.requiresReview are sent here instead of interpreted
+    pending_review: { actors: ['interpreter', 'manager'], requires: ['interpretation'] },
+    returned: { actors: ['interpreter', 'manager'], requires: ['reason'] },
+    // Unassigned and put back in the queue
+    new: { actors: ['assigner', 'manager', 'system'] },
+  },
+  pending_inquiry: {
+    // The dreamer answered the interpreter's question
+    pending_interpretation: { actors: ['dreamer', 'interpreter', 'manager'] },
+    returned: { actors: ['interpreter', 'manager'], requires: ['reason'] },
+  },
+  // Only through POST /api/dreams/:id/review, which records the decision
+  pending_review: {
+    interpreted: { actors: ['reviewer'], requires: ['interpretation'] },
+    // Sent back to the interpreter with the reviewer's notes
+    pending_interpretation: { actors: ['reviewer'], requires: ['reason'] },
+  },
+  interpreted: {
+    pending_interpretation: { actors: ['manager'], requires: ['reason'] },
+  },
+  returned: {
+    // Resubmitted by the dreamer after addressing the reason it was returned
+    new: { actors: ['dreamer', 'manager'] },
+  },
+};
+
+export type TransitionCheck =
+  | { allowed: true }
+  | { allowed: false; status: 400 | 403; code: string; error: string };
+
+export function getAllowedTransitions(from: DreamStatus, actors: DreamActor[]): DreamStatus[] {
+  return (Object.entries(TRANSITIONS[from]) as Array<[DreamStatus, TransitionRule]>)
+    .filter(([, rule]) => rule.actors.some((actor) => actors.includes(actor)))
+    .map(([to]) => to);
+}
+
+/**
+ * Check a status change against the state machine. `context` describes the
+ * dream as it will be after the update (interpreter, interpretation) plus the
+ * reason supplied with the request.
+ */
+export function checkTransition(
+  from: DreamStatus,
+  to: DreamStatus,
+  actors: DreamActor[],
+  context: { interpreterId?: string | null; interpretation?: string | null; reason?: string | null }
+): TransitionCheck {
+  const rule = TRANSITIONS[from][to];
+
+  if (!rule) {
+    return {
+      allowed: false,
+      status: 400,
+      code: 'INVALID_STATUS_TRANSITION',
+      error: `A dream cannot move from ${from} to ${to}`,
+    };
+  }
+
+  if (!rule.actors.some((actor) => actors.includes(actor))) {
+    return {
+      allowed: false,
+      status: 403,
+      code: 'STATUS_TRANSITION_FORBIDDEN',
+      error: `You are not allowed to move this dream from ${from} to ${to}`,
+    };
+  }
+
+  for (const requirement of rule.requires ?? []) {
+    if (requirement === 'interpreter' && !context.interpreterId) {
+      return { allowed: false, status: 400, code: 'INTERPRETER_REQUIRED', error: 'An interpreter must be assigned first' };
+    }
+    if (requirement === 'interpretation' && !context.interpretation?.trim()) {
+      return { allowed: false, status: 400, code: 'INTERPRETATION_REQUIRED', error: 'An interpretation is required' };
+    }
+    if (requirement === 'reason' && !context.reason?.trim()) {
+      return { allowed: false, status: 400, code: 'REASON_REQUIRED', error: 'A reason is required for this change' };
+    }
+  }
+
+  return { allowed: true };
+}
+
+export async function recordDreamStatusChange(
+  tx: Prisma.TransactionClient,
+  change: {
+    dreamId: string;
+    fromStatus: DreamStatus | null;
+    toStatus: DreamStatus;
+    changedById: string | null;
+    reason?: string | null;
+  }
+) {
+  // Time spent waiting on the dreamer doesn't count against the deadline
+  if (change.fromStatus === 'pending_inquiry' && change.toStatus !== 'pending_inquiry') {
+    await resumeSlaClock(tx, change.dreamId);
+  }
+
+  return tx.dreamStatusHistory.create({
+    data: {
+      dreamId: change.dreamId,
+      fromStatus: change.fromStatus,
+      toStatus: change.toStatus,
+      changedById: change.changedById,
+      reason: change.reason?.trim() || null,
+    },
+  });
+}
@@ -0,0 +1,95 @@
+import { MailMessage } from '../lib/mailer';
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+export function buildAppUrl(path: string, params: Record<string, string> = {}) {
+  const url = new URL(path, APP_URL);
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
+
+export function passwordResetEmail(to: string, token: string, expiresInMinutes: number): MailMessage {
+  const link = buildAppUrl('/reset-password', { token });
+
+  return {
+    to,
+    subject: 'Reset your Mubasharat password',
+    text: [
+      'We received a request to reset the password for your Mubasharat account.',
+      '',
+      `Use the link below within ${expiresInMinutes} minutes to choose a new password:`,
+      link,
+      '',
+      'If you did not request this, you can ignore this email.',
+    ].join('\n'),
+  };
+}
+
+export function emailVerificationEmail(to: string, token: string, expiresInHours: number): MailMessage {
+  const link = buildAppUrl('/verify-email', { token });
+
+  return {
+    to,
+    subject: 'Confirm your email for Mubasharat',
+    text: [
+      'Welcome to Mubasharat!',
+      '',
+      `Please confirm your email address within ${expiresInHours} hours by opening the link below:`,
+      link,
+      '',
+      'Submitting dreams and the free trial unlock once your email is confirmed.',
+    ].join('\n'),
+  };
+}
+
+export function emailChangeEmail(to: string, token: string, expiresInHours: number): MailMessage {
+  const link = buildAppUrl('/verify-email', { token });
+
+  return {
+    to,
+    subject: 'Confirm your new email for Mubasharat',
+    text: [
+      'We received a request to use this address for a Mubasharat account.',
+      '',
+      `Confirm the change within ${expiresInHours} hours by opening the link below:`,
+      link,
+      '',
+      'If you did not request this, you can ignore this email and nothing will change.',
+    ].join('\n'),
+  };
+}
+
+export function emailChangedNotice(to: string, newEmail: string): MailMessage {
+  return {
+    to,
+    subject: 'Your Mubasharat email was changed',
+    text: [
+      `The email address on your Mubasharat account was changed to ${newEmail}.`,
+      '',
+      'If you did not make this change, reset your password and contact support right away.',
+    ].join('\n'),
+  };
+}
+
+export function slaEscalationEmail(
+  to: string,
+  dreams: Array<{ id: string; title: string; dueAt: Date; interpreterName: string | null; reassigned: boolean }>
+): MailMessage {
+  return {
+    to,
+    subject: `${dreams.length} dream(s) missed their response deadline`,
+    text: [
+      'The following dreams are past the response time promised by the dreamer\'s plan:',
+      '',
+      ...dreams.map((dream) =>
+        [
+          `- ${dream.title} (due ${dream.dueAt.toISOString()})`,
+          `  Interpreter: ${dream.interpreterName ?? 'unassigned'}${dream.reassigned ? ' - reassigned automatically' : ''}`,
+          `  ${buildAppUrl(`/admin/dreams/${dream.id}`)}`,
+        ].join('\n')
+      ),
+    ].join('\n'),
+  };
+}
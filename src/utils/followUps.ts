@@ -0,0 +1,41 @@
+export const MAX_FOLLOW_UP_LENGTH = 2000;
+
+export interface FollowUpAllowance {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+}
+
+/**
+ * Follow-up rounds left on a dream. Dreams without a subscription (e.g. ones
+ * submitted by admins) have no limit, the same as the other plan quotas.
+ */
+export function getFollowUpAllowance(
+  subscription: { plan: { followUpRounds: number | null } } | null,
+  used: number
+): FollowUpAllowance {
+  const limit = subscription ? subscription.plan.followUpRounds : null;
+  return { limit, used, remaining: limit === null ? null : Math.max(0, limit - used) };
+}
+
+export function formatFollowUp(followUp: {
+  id: string;
+  round: number;
+  question: string;
+  answer: string | null;
+  answeredAt: Date | null;
+  createdAt: Date;
+  askedBy?: { id: string; fullName: string | null } | null;
+  answeredBy?: { id: string; fullName: string | null } | null;
+}) {
+  return {
+    id: followUp.id,
+    round: followUp.round,
+    question: followUp.question,
+    answer: followUp.answer,
+    askedBy: followUp.askedBy ?? null,
+    answeredBy: followUp.answeredBy ?? null,
+    askedAt: followUp.createdAt.toISOString(),
+    answeredAt: followUp.answeredAt ? followUp.answeredAt.toISOString() : null,
+  };
+}
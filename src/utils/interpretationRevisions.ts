@@ -0,0 +1,48 @@
+import { Prisma } from '@prisma/client';
+import { DiffOp, diffWords, summarizeDiff } from './textDiff';
+
+/**
+ * Store the next version of a dream's interpretation with its diff from the
+ * previous text. Dreams interpreted before revisions were kept have no rows,
+ * so their first revision diffs against the text they had at that point.
+ */
+export async function recordInterpretationRevision(
+  tx: Prisma.TransactionClient,
+  entry: { dreamId: string; authorId: string; previous: string | null; interpretation: string }
+) {
+  const latest = await tx.interpretationRevision.findFirst({
+    where: { dreamId: entry.dreamId },
+    orderBy: { version: 'desc' },
+    select: { version: true },
+  });
+
+  return tx.interpretationRevision.create({
+    data: {
+      dreamId: entry.dreamId,
+      authorId: entry.authorId,
+      version: (latest?.version ?? 0) + 1,
+      interpretation: entry.interpretation,
+      diff: diffWords(entry.previous ?? '', entry.interpretation),
+    },
+  });
+}
+
+export function formatRevision(revision: {
+  id: string;
+  version: number;
+  interpretation: string;
+  diff: Prisma.JsonValue;
+  createdAt: Date;
+  author: { id: string; fullName: string | null; role: string } | null;
+}) {
+  const diff = revision.diff as unknown as DiffOp[];
+  return {
+    id: revision.id,
+    version: revision.version,
+    interpretation: revision.interpretation,
+    diff,
+    ...summarizeDiff(diff),
+    author: revision.author,
+    createdAt: revision.createdAt.toISOString(),
+  };
+}
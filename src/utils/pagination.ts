@@ -0,0 +1,52 @@
+export interface PageParams {
+  limit: number;
+  cursor: string | null;
+}
+
+/**
+ * Read ?limit and ?cursor from a query string. Cursors are opaque to clients;
+ * internally they wrap the id of the last item on the previous page.
+ */
+export function parsePageParams(
+  query: Record<string, unknown>,
+  options: { defaultLimit?: number; maxLimit?: number } = {}
+): PageParams | { error: string } {
+  const defaultLimit = options.defaultLimit ?? 20;
+  const maxLimit = options.maxLimit ?? 100;
+
+  let limit = defaultLimit;
+  if (query.limit !== undefined) {
+    limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > maxLimit) {
+      return { error: `limit must be an integer between 1 and ${maxLimit}` };
+    }
+  }
+
+  let cursor: string | null = null;
+  if (typeof query.cursor === 'string' && query.cursor) {
+    cursor = Buffer.from(query.cursor, 'base64url').toString('utf8');
+    if (!cursor) {
+      return { error: 'Invalid cursor' };
+    }
+  }
+
+  return { limit, cursor };
+}
+
+export function encodeCursor(id: string) {
+  return Buffer.from(id, 'utf8').toString('base64url');
+}
+
+/**
+ * Pair with `take: limit + 1` on the query: the extra row only signals that
+ * another page exists and is dropped from the result.
+ */
+export function buildPage<T extends { id: string }>(rows: T[], limit: number) {
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    items,
+    nextCursor: hasMore ? encodeCursor(items[items.length - 1].id) : null,
+  };
+}
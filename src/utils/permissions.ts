@@ -0,0 +1,131 @@
+import { Role } from '@prisma/client';
+import prisma from '../lib/prisma';
+
+export const PERMISSIONS = [
+  'admin:stats',
+  'users:read',
+  'users:write',
+  'users:promote',
+  'users:impersonate',
+  'interpreters:read',
+  'security:manage',
+  'lockouts:manage',
+  'permissions:manage',
+  'plans:read_inactive',
+  'plans:write',
+  'plans:bypass_quota',
+  'pages:read',
+  'pages:write',
+  'pages:publish',
+  'dreams:read_all',
+  'dreams:assign',
+  'dreams:claim',
+  'dreams:manage',
+  'dreams:review',
+  'requests:read_all',
+  'requests:assign',
+  'requests:manage',
+  'messages:read_all',
+  'ratings:moderate',
+  'publications:moderate',
+  'symbols:use',
+  'symbols:write',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLES: Role[] = ['dreamer', 'interpreter', 'admin', 'super_admin'];
+
+// Built-in grants. Super admins can add or remove grants per role at runtime
+// through /api/admin/permissions; those overrides are applied on top of this.
+const DEFAULT_ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  dreamer: [],
+  interpreter: ['dreams:claim', 'symbols:use'],
+  admin: [
+    'interpreters:read',
+    'lockouts:manage',
+    'plans:read_inactive',
+    'plans:bypass_quota',
+    'dreams:read_all',
+    'dreams:assign',
+    'dreams:review',
+    'requests:read_all',
+    'requests:assign',
+    'messages:read_all',
+    'ratings:moderate',
+    'publications:moderate',
+    'symbols:use',
+    'symbols:write',
+  ],
+  super_admin: [...PERMISSIONS],
+};
+
+// Never removable, so permissions can't be locked away from everyone
+const PROTECTED_GRANTS: Array<{ role: Role; permission: Permission }> = [
+  { role: 'super_admin', permission: 'permissions:manage' },
+];
+
+const CACHE_TTL_MS = 30 * 1000;
+
+let cache: { loadedAt: number; byRole: Map<Role, Set<Permission>> } | null = null;
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === 'string' && (PERMISSIONS as readonly string[]).includes(value);
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+export function isProtectedGrant(role: Role, permission: Permission) {
+  return PROTECTED_GRANTS.some((grant) => grant.role === role && grant.permission === permission);
+}
+
+async function loadRolePermissions() {
+  const overrides = await prisma.rolePermission.findMany();
+  const byRole = new Map<Role, Set<Permission>>();
+
+  for (const role of ROLES) {
+    byRole.set(role, new Set(DEFAULT_ROLE_PERMISSIONS[role]));
+  }
+
+  for (const override of overrides) {
+    if (!isPermission(override.permission)) continue;
+    const granted = byRole.get(override.role)!;
+    if (override.granted) {
+      granted.add(override.permission);
+    } else if (!isProtectedGrant(override.role, override.permission)) {
+      granted.delete(override.permission);
+    }
+  }
+
+  return byRole;
+}
+
+export async function getRolePermissions(role: string): Promise<Set<Permission>> {
+  if (!isRole(role)) {
+    return new Set();
+  }
+
+  if (!cache || Date.now() - cache.loadedAt > CACHE_TTL_MS) {
+    cache = { loadedAt: Date.now(), byRole: await loadRolePermissions() };
+  }
+
+  return cache.byRole.get(role) ?? new Set();
+}
+
+export async function hasPermission(role: string | undefined | null, permission: Permission) {
+  if (!role) {
+    return false;
+  }
+  const granted = await getRolePermissions(role);
+  return granted.has(permission);
+}
+
+export function invalidatePermissionCache() {
+  cache = null;
+}
+
+export function getDefaultRolePermissions(role: Role): Permission[] {
+  return [...DEFAULT_ROLE_PERMISSIONS[role]];
+}
@@ -0,0 +1,46 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Give a dreamer the current free trial plan, once per account.
+ * Returns the created subscription, or null when no trial applies.
+ */
+export async function assignTrialPlan(tx: Prisma.TransactionClient, userId: string) {
+  const previousPlans = await tx.userPlan.count({ where: { userId } });
+  if (previousPlans > 0) {
+    return null;
+  }
+
+  const trialPlan = await tx.plan.findFirst({
+    where: {
+      isTrial: true,
+      isActive: true,
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (!trialPlan || !trialPlan.trialDurationDays) {
+    return null;
+  }
+
+  const now = new Date();
+  const expiresAt = new Date(now);
+  expiresAt.setDate(expiresAt.getDate() + trialPlan.trialDurationDays);
+
+  const subscription = await tx.userPlan.create({
+    data: {
+      userId,
+      planId: trialPlan.id,
+      isActive: true,
+      startedAt: now,
+      expiresAt,
+      lettersUsed: 0,
+      audioMinutesUsed: 0,
+      interpretationsUsed: 0,
+      dreamsUsed: 0,
+    },
+  });
+
+  console.log(`[Plans] Assigned trial plan to dreamer ${userId}, expires: ${expiresAt.toISOString()}`);
+
+  return subscription;
+}
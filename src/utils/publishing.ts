@@ -0,0 +1,126 @@
+import { PublicationStatus } from '@prisma/client';
+import { maskPersonalInfo } from './anonymize';
+
+// Feed categories and their labels on the site. glad_tidings backs the
+// "البشارات" page.
+export const DREAM_CATEGORIES = {
+  glad_tidings: 'البشارات',
+  marriage: 'الزواج',
+  family: 'الأسرة',
+  work: 'العمل والرزق',
+  health: 'الصحة',
+  travel: 'السفر',
+  worship: 'العبادات',
+  other: 'أخرى',
+} as const;
+
+export type DreamCategory = keyof typeof DREAM_CATEGORIES;
+
+export const MAX_MASK_TERMS = 20;
+
+export function isDreamCategory(value: unknown): value is DreamCategory {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(DREAM_CATEGORIES, value);
+}
+
+/**
+ * Anonymized copy of a dream for publishing. The dreamer's own name and any
+ * extra terms they list (family names, places) are masked along with emails
+ * and phone numbers.
+ */
+export function anonymizeDreamForPublishing(
+  dream: { title: string; content: string; interpretation: string },
+  options: { dreamerName: string | null; extraTerms?: string[] }
+) {
+  const names = [options.dreamerName ?? '', ...(options.extraTerms ?? [])].filter((name) => name.trim());
+
+  const title = maskPersonalInfo(dream.title, { names });
+  const content = maskPersonalInfo(dream.content, { names });
+  const interpretation = maskPersonalInfo(dream.interpretation, { names });
+
+  return {
+    title: title.text,
+    content: content.text,
+    interpretation: interpretation.text,
+    maskedCount: title.masked + content.masked + interpretation.masked,
+  };
+}
+
+/** What the dreamer and admins see about a publication, including moderation state. */
+export function formatPublication(publication: {
+  id: string;
+  dreamId: string;
+  title: string;
+  content: string;
+  interpretation: string;
+  category: string;
+  status: PublicationStatus;
+  maskedCount: number;
+  rejectionReason: string | null;
+  reviewedAt: Date | null;
+  publishedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}) {
+  return {
+    id: publication.id,
+    dreamId: publication.dreamId,
+    title: publication.title,
+    content: publication.content,
+    interpretation: publication.interpretation,
+    category: publication.category,
+    status: publication.status,
+    maskedCount: publication.maskedCount,
+    rejectionReason: publication.rejectionReason,
+    reviewedAt: publication.reviewedAt ? publication.reviewedAt.toISOString() : null,
+    publishedAt: publication.publishedAt ? publication.publishedAt.toISOString() : null,
+    createdAt: publication.createdAt.toISOString(),
+    updatedAt: publication.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * A feed entry. Nothing here identifies the dreamer or the dream behind it;
+ * comments on it are keyed by the publication id (GET /api/feed/:id/comments).
+ */
+export function formatFeedEntry(publication: {
+  id: string;
+  title: string;
+  content: string;
+  interpretation: string;
+  category: string;
+  publishedAt: Date | null;
+  dream: { interpreter: { fullName: string | null; avatarUrl: string | null } | null };
+}) {
+  return {
+    id: publication.id,
+    title: publication.title,
+    content: publication.content,
+    interpretation: publication.interpretation,
+    category: publication.category,
+    categoryLabel: isDreamCategory(publication.category) ? DREAM_CATEGORIES[publication.category] : null,
+    interpreter: publication.dream.interpreter,
+    publishedAt: publication.publishedAt ? publication.publishedAt.toISOString() : null,
+  };
+}
+
+/** A comment on a feed entry. The dreamer's own comments are shown without their name. */
+export function formatFeedComment(
+  comment: {
+    id: string;
+    userId: string;
+    content: string;
+    createdAt: Date;
+    user: { id: string; fullName: string | null; role: string; avatarUrl: string | null };
+  },
+  dreamerId: string
+) {
+  const isDreamer = comment.userId === dreamerId;
+
+  return {
+    id: comment.id,
+    content: comment.content,
+    user: isDreamer ? null : comment.user,
+    isDreamer,
+    createdAt: comment.createdAt.toISOString(),
+  };
+}
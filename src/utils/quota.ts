@@ -0,0 +1,360 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { UsageSource, recordUsage } from './usageLedger';
+
+function describeLimit(used: number, limit: number | null) {
+  return { used, limit, remaining: limit === null ? null : Math.max(0, limit - used) };
+}
+
+export interface InterpretationAllowance {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+}
+
+export function getInterpretationAllowance(subscription: {
+  interpretationsUsed: number;
+  plan: { maxInterpretations: number | null };
+}): InterpretationAllowance {
+  return describeLimit(subscription.interpretationsUsed, subscription.plan.maxInterpretations);
+}
+
+/** Counters and limits for every metered kind of usage on a subscription. */
+export function getUsageSummary(subscription: {
+  lettersUsed: number;
+  audioMinutesUsed: number;
+  dreamsUsed: number;
+  interpretationsUsed: number;
+  plan: {
+    letterQuota: number | null;
+    audioMinutesQuota: number | null;
+    maxDreams: number | null;
+    maxInterpretations: number | null;
+  };
+}) {
+  const { plan } = subscription;
+  return {
+    letters: describeLimit(subscription.lettersUsed, plan.letterQuota),
+    audioMinutes: describeLimit(subscription.audioMinutesUsed, plan.audioMinutesQuota),
+    dreams: describeLimit(subscription.dreamsUsed, plan.maxDreams),
+    interpretations: describeLimit(subscription.interpretationsUsed, plan.maxInterpretations),
+  };
+}
+
+/**
+ * The subscription an interpretation of this dream counts against: the one it
+ * was submitted on, or for older dreams the dreamer's current one. Null when
+ * neither exists (e.g. dreams submitted by admins), in which case no quota applies.
+ */
+export async function findDreamSubscription(
+  dream: { dreamerId: string; userPlanId: string | null },
+  db: Prisma.TransactionClient = prisma
+) {
+  if (dream.userPlanId) {
+    return db.userPlan.findUnique({ where: { id: dream.userPlanId }, include: { plan: true } });
+  }
+
+  return db.userPlan.findFirst({
+    where: {
+      userId: dream.dreamerId,
+      isActive: true,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+    },
+    include: { plan: true },
+    orderBy: { startedAt: 'desc' },
+  });
+}
+
+export type InterpretationQuotaCheck =
+  | { allowed: true; subscriptionId: string | null; limit: number | null }
+  | { allowed: false; code: 'INTERPRETATION_QUOTA_EXCEEDED'; error: string; limit: number };
+
+export async function checkInterpretationQuota(
+  dream: { dreamerId: string; userPlanId: string | null },
+  db: Prisma.TransactionClient = prisma
+): Promise<InterpretationQuotaCheck> {
+  const subscription = await findDreamSubscription(dream, db);
+  if (!subscription) {
+    return { allowed: true, subscriptionId: null, limit: null };
+  }
+
+  const allowance = getInterpretationAllowance(subscription);
+  if (allowance.limit !== null && allowance.remaining === 0) {
+    return {
+      allowed: false,
+      code: 'INTERPRETATION_QUOTA_EXCEEDED',
+      error: `Interpretation limit (${allowance.limit}) reached for the dreamer's plan`,
+      limit: allowance.limit,
+    };
+  }
+
+  return { allowed: true, subscriptionId: subscription.id, limit: allowance.limit };
+}
+
+/**
+ * Count one interpretation. The increment only applies while the subscription
+ * is under its limit, so concurrent calls can't overshoot it. Returns false
+ * when the quota is already used up.
+ */
+export async function chargeInterpretation(
+  tx: Prisma.TransactionClient,
+  subscriptionId: string,
+  limit: number | null,
+  source: UsageSource
+) {
+  const { count } = await tx.userPlan.updateMany({
+    where: { id: subscriptionId, ...(limit !== null && { interpretationsUsed: { lt: limit } }) },
+    data: { interpretationsUsed: { increment: 1 } },
+  });
+
+  if (count > 0) {
+    await recordUsage(tx, subscriptionId, source, { interpretations: 1 });
+  }
+  return count > 0;
+}
+
+/**
+ * Give back an interpretation, e.g. when an interpreted dream is reopened.
+ * Like refundDreamUsage, one charged in an earlier billing period (or never
+ * charged, with no chargedAt) is not returned.
+ */
+export async function refundInterpretation(
+  tx: Prisma.TransactionClient,
+  subscription: { id: string; startedAt: Date },
+  chargedAt: Date | null,
+  source: UsageSource
+) {
+  if (!chargedAt || subscription.startedAt > chargedAt) {
+    return false;
+  }
+
+  const { count } = await tx.userPlan.updateMany({
+    where: { id: subscription.id, interpretationsUsed: { gt: 0 } },
+    data: { interpretationsUsed: { decrement: 1 } },
+  });
+
+  if (count > 0) {
+    await recordUsage(tx, subscription.id, source, { interpretations: -1 });
+  }
+  return count > 0;
+}
+
+// Thrown inside a transaction to roll it back when a quota runs out between
+// the check and the write
+export class QuotaExceededError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public limit: number | null
+  ) {
+    super(message);
+  }
+}
+
+export interface DreamUsage {
+  letters: number;
+  audioMinutes: number;
+}
+
+type UsageLimitFailure = { reserved: false; code: string; error: string; limit: number | null };
+
+function findExceededLimit(
+  subscription: {
+    lettersUsed: number;
+    audioMinutesUsed: number;
+    dreamsUsed: number;
+    plan: { letterQuota: number | null; audioMinutesQuota: number | null; maxDreams: number | null };
+  },
+  usage: DreamUsage
+): UsageLimitFailure | null {
+  const { plan } = subscription;
+
+  if (plan.letterQuota !== null && subscription.lettersUsed + usage.letters > plan.letterQuota) {
+    return {
+      reserved: false,
+      code: 'QUOTA_EXCEEDED',
+      error: `Letter quota exceeded for the current plan (${plan.letterQuota} characters)`,
+      limit: plan.letterQuota,
+    };
+  }
+
+  if (
+    usage.audioMinutes > 0 &&
+    plan.audioMinutesQuota !== null &&
+    subscription.audioMinutesUsed + usage.audioMinutes > plan.audioMinutesQuota
+  ) {
+    return {
+      reserved: false,
+      code: 'AUDIO_QUOTA_EXCEEDED',
+      error: `Audio minutes quota exceeded for the current plan (${plan.audioMinutesQuota} minutes)`,
+      limit: plan.audioMinutesQuota,
+    };
+  }
+
+  if (plan.maxDreams !== null && subscription.dreamsUsed >= plan.maxDreams) {
+    return {
+      reserved: false,
+      code: 'MAX_DREAMS_REACHED',
+      error: `Maximum dreams limit (${plan.maxDreams}) reached for your plan`,
+      limit: plan.maxDreams,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Take one dream slot plus its letters and audio minutes from a subscription.
+ * The limits are part of the update's where clause, so concurrent submissions
+ * can't all pass a check and then overshoot the quota together.
+ */
+export async function reserveDreamUsage(
+  tx: Prisma.TransactionClient,
+  subscriptionId: string,
+  usage: DreamUsage,
+  source: UsageSource
+): Promise<{ reserved: true } | UsageLimitFailure> {
+  const subscription = await tx.userPlan.findUniqueOrThrow({
+    where: { id: subscriptionId },
+    include: { plan: true },
+  });
+
+  const exceeded = findExceededLimit(subscription, usage);
+  if (exceeded) {
+    return exceeded;
+  }
+
+  const { plan } = subscription;
+
+  const { count } = await tx.userPlan.updateMany({
+    where: {
+      id: subscriptionId,
+      ...(plan.letterQuota !== null && { lettersUsed: { lte: plan.letterQuota - usage.letters } }),
+      ...(usage.audioMinutes > 0 &&
+        plan.audioMinutesQuota !== null && { audioMinutesUsed: { lte: plan.audioMinutesQuota - usage.audioMinutes } }),
+      ...(plan.maxDreams !== null && { dreamsUsed: { lt: plan.maxDreams } }),
+    },
+    data: {
+      lettersUsed: { increment: usage.letters },
+      audioMinutesUsed: { increment: usage.audioMinutes },
+      dreamsUsed: { increment: 1 },
+    },
+  });
+
+  if (count === 0) {
+    // Someone else used the last of it since we read the row
+    const current = await tx.userPlan.findUniqueOrThrow({
+      where: { id: subscriptionId },
+      include: { plan: true },
+    });
+    return (
+      findExceededLimit(current, usage) ?? {
+        reserved: false,
+        code: 'QUOTA_EXCEEDED',
+        error: 'Your plan has no usage left for this dream',
+        limit: null,
+      }
+    );
+  }
+
+  await recordUsage(tx, subscriptionId, source, {
+    letters: usage.letters,
+    audio_minutes: usage.audioMinutes,
+    dreams: 1,
+  });
+
+  return { reserved: true };
+}
+
+/**
+ * Take more letters for a dream that was already charged, e.g. when its
+ * description is edited to a longer text. Guarded like reserveDreamUsage.
+ */
+export async function reserveExtraLetters(
+  tx: Prisma.TransactionClient,
+  subscriptionId: string,
+  letters: number,
+  source: UsageSource
+): Promise<{ reserved: true } | UsageLimitFailure> {
+  const subscription = await tx.userPlan.findUniqueOrThrow({
+    where: { id: subscriptionId },
+    include: { plan: true },
+  });
+  const { letterQuota } = subscription.plan;
+
+  const { count } = await tx.userPlan.updateMany({
+    where: { id: subscriptionId, ...(letterQuota !== null && { lettersUsed: { lte: letterQuota - letters } }) },
+    data: { lettersUsed: { increment: letters } },
+  });
+
+  if (count === 0) {
+    return {
+      reserved: false,
+      code: 'QUOTA_EXCEEDED',
+      error: `Letter quota exceeded for the current plan (${letterQuota} characters)`,
+      limit: letterQuota,
+    };
+  }
+
+  await recordUsage(tx, subscriptionId, source, { letters });
+
+  return { reserved: true };
+}
+
+/**
+ * Give back what a dream reserved (see Dream.usageChargedAt). Usage from an
+ * earlier billing period is not returned, since the counters were reset when
+ * the subscription renewed. The refund is claimed by clearing usageChargedAt
+ * first, so a return and a delete racing each other can't both give it back.
+ */
+export async function refundDreamUsage(
+  tx: Prisma.TransactionClient,
+  dream: {
+    id: string;
+    userPlanId: string | null;
+    lettersCharged: number;
+    audioMinutesCharged: number;
+    usageChargedAt: Date | null;
+  },
+  source: UsageSource
+) {
+  if (!dream.userPlanId || !dream.usageChargedAt) {
+    return false;
+  }
+
+  const claimed = await tx.dream.updateMany({
+    where: { id: dream.id, usageChargedAt: { not: null } },
+    data: { usageChargedAt: null },
+  });
+
+  if (claimed.count !== 1) {
+    return false;
+  }
+
+  const subscription = await tx.userPlan.findUnique({ where: { id: dream.userPlanId } });
+  const samePeriod = subscription && subscription.startedAt <= dream.usageChargedAt;
+
+  if (samePeriod) {
+    // Each counter is only decremented if it can't go negative; the ledger gets what was actually returned
+    const letters = await tx.userPlan.updateMany({
+      where: { id: dream.userPlanId, lettersUsed: { gte: dream.lettersCharged } },
+      data: { lettersUsed: { decrement: dream.lettersCharged } },
+    });
+    const audioMinutes = await tx.userPlan.updateMany({
+      where: { id: dream.userPlanId, audioMinutesUsed: { gte: dream.audioMinutesCharged } },
+      data: { audioMinutesUsed: { decrement: dream.audioMinutesCharged } },
+    });
+    const dreams = await tx.userPlan.updateMany({
+      where: { id: dream.userPlanId, dreamsUsed: { gt: 0 } },
+      data: { dreamsUsed: { decrement: 1 } },
+    });
+
+    await recordUsage(tx, dream.userPlanId, source, {
+      letters: letters.count > 0 ? -dream.lettersCharged : 0,
+      audio_minutes: audioMinutes.count > 0 ? -dream.audioMinutesCharged : 0,
+      dreams: dreams.count > 0 ? -1 : 0,
+    });
+  }
+
+  return Boolean(samePeriod);
+}
@@ -0,0 +1,52 @@
+import { Prisma } from '@prisma/client';
+
+// Every interpreter starts as if they had PRIOR_WEIGHT ratings of PRIOR_MEAN
+// stars, so one early 5 or 1 doesn't put them at the top or bottom of the list.
+const PRIOR_MEAN = Number(process.env.RATING_PRIOR_MEAN || 4);
+const PRIOR_WEIGHT = Number(process.env.RATING_PRIOR_WEIGHT || 5);
+
+export const MIN_STARS = 1;
+export const MAX_STARS = 5;
+export const MAX_REVIEW_LENGTH = 2000;
+
+export function bayesianRating(starsTotal: number, count: number) {
+  if (count === 0) {
+    return 0;
+  }
+  return (PRIOR_MEAN * PRIOR_WEIGHT + starsTotal) / (PRIOR_WEIGHT + count);
+}
+
+/** Recompute Profile.rating and ratingCount from the interpreter's visible ratings. */
+export async function recalculateInterpreterRating(tx: Prisma.TransactionClient, interpreterId: string) {
+  const aggregate = await tx.dreamRating.aggregate({
+    where: { interpreterId, hiddenAt: null },
+    _sum: { stars: true },
+    _count: { _all: true },
+  });
+
+  const count = aggregate._count._all;
+  const rating = bayesianRating(aggregate._sum.stars ?? 0, count);
+
+  await tx.profile.update({
+    where: { id: interpreterId },
+    data: { rating: new Prisma.Decimal(rating.toFixed(2)), ratingCount: count },
+  });
+}
+
+export function formatRating(rating: {
+  id: string;
+  dreamId: string;
+  stars: number;
+  review: string | null;
+  hiddenAt: Date | null;
+  createdAt: Date;
+}) {
+  return {
+    id: rating.id,
+    dreamId: rating.dreamId,
+    stars: rating.stars,
+    review: rating.hiddenAt ? null : rating.review,
+    isHidden: Boolean(rating.hiddenAt),
+    createdAt: rating.createdAt.toISOString(),
+  };
+}
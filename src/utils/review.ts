@@ -0,0 +1,138 @@
+import { DreamStatus, Prisma, ReviewDecision } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { hasPermission } from './permissions';
+
+export const REVIEW_DECISIONS = Object.values(ReviewDecision);
+export const MAX_REVIEW_NOTES_LENGTH = 4000;
+
+export function isReviewDecision(value: unknown): value is ReviewDecision {
+  return typeof value === 'string' && (REVIEW_DECISIONS as string[]).includes(value);
+}
+
+/** Designated reviewers (Profile.isReviewer) and anyone holding dreams:review. */
+export async function canReviewDreams(userId: string, role: string | undefined) {
+  if (await hasPermission(role, 'dreams:review')) {
+    return true;
+  }
+  const profile = await prisma.profile.findUnique({ where: { id: userId }, select: { isReviewer: true } });
+  return Boolean(profile?.isReviewer);
+}
+
+/**
+ * Whether the dreamer should be kept from seeing this dream's interpretation:
+ * once it has gone through review, only approved work is shown.
+ */
+export function isReviewHiddenFrom(
+  dream: { status: DreamStatus; dreamerId: string; interpreterId: string | null; reviewRequestedAt: Date | null },
+  viewerId: string
+) {
+  return (
+    dream.dreamerId === viewerId &&
+    dream.interpreterId !== viewerId &&
+    dream.reviewRequestedAt !== null &&
+    dream.status !== 'interpreted'
+  );
+}
+
+/**
+ * The dreamer doesn't know a dream is in review: they see it as still being
+ * interpreted, without the interpretation that is waiting for approval.
+ */
+export function hideReviewFromDreamer<
+  T extends {
+    status: DreamStatus;
+    dreamerId: string;
+    interpreterId: string | null;
+    reviewRequestedAt: Date | null;
+    interpretation: string | null;
+  },
+>(dream: T, viewerId: string): T {
+  if (!isReviewHiddenFrom(dream, viewerId)) {
+    return dream;
+  }
+  return {
+    ...dream,
+    status: dream.status === 'pending_review' ? 'pending_interpretation' : dream.status,
+    interpretation: null,
+    reviewRequestedAt: null,
+  };
+}
+
+export function formatReview(review: {
+  id: string;
+  dreamId: string;
+  decision: ReviewDecision;
+  notes: string | null;
+  submittedAt: Date;
+  createdAt: Date;
+  interpreter?: { id: string; fullName: string | null } | null;
+  reviewer?: { id: string; fullName: string | null } | null;
+}) {
+  return {
+    id: review.id,
+    dreamId: review.dreamId,
+    decision: review.decision,
+    notes: review.notes,
+    interpreter: review.interpreter ?? null,
+    reviewer: review.reviewer ?? null,
+    submittedAt: review.submittedAt.toISOString(),
+    reviewedAt: review.createdAt.toISOString(),
+  };
+}
+
+export interface ReviewReportEntry {
+  decision: ReviewDecision;
+  submittedAt: Date;
+  createdAt: Date;
+}
+
+/** Decision counts and turnaround for a group of reviews. */
+export function summarizeReviews(reviews: ReviewReportEntry[]) {
+  const counts = { approved: 0, edited: 0, sent_back: 0 } satisfies Record<ReviewDecision, number>;
+  let reviewHoursTotal = 0;
+
+  for (const review of reviews) {
+    counts[review.decision] += 1;
+    reviewHoursTotal += (review.createdAt.getTime() - review.submittedAt.getTime()) / (60 * 60 * 1000);
+  }
+
+  const total = reviews.length;
+
+  return {
+    total,
+    approved: counts.approved,
+    edited: counts.edited,
+    sentBack: counts.sent_back,
+    // Approved as written, without the reviewer having to change anything
+    approvalRate: total > 0 ? Math.round((counts.approved / total) * 1000) / 1000 : null,
+    averageReviewHours: total > 0 ? Math.round((reviewHoursTotal / total) * 10) / 10 : null,
+  };
+}
+
+/**
+ * The revisions a dreamer may see while review is hidden from them (see
+ * isReviewHiddenFrom): everything up to the last approval, or if nothing has
+ * been approved yet, what was written before the dream first went to review.
+ */
+export async function reviewedRevisionsFilter(dream: {
+  id: string;
+  reviewRequestedAt: Date | null;
+}): Promise<Prisma.DateTimeFilter> {
+  const lastApproval = await prisma.interpretationReview.findFirst({
+    where: { dreamId: dream.id, decision: { in: ['approved', 'edited'] } },
+    orderBy: { createdAt: 'desc' },
+    select: { createdAt: true },
+  });
+
+  if (lastApproval) {
+    return { lte: lastApproval.createdAt };
+  }
+
+  const firstReview = await prisma.interpretationReview.findFirst({
+    where: { dreamId: dream.id },
+    orderBy: { submittedAt: 'asc' },
+    select: { submittedAt: true },
+  });
+
+  return { lt: firstReview?.submittedAt ?? dream.reviewRequestedAt ?? new Date(0) };
+}
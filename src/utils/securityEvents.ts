@@ -0,0 +1,31 @@
+import { Request } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+
+interface SecurityEventInput {
+  type: string;
+  userId?: string | null;
+  email?: string | null;
+  details?: Prisma.InputJsonValue;
+}
+
+/**
+ * Persist a security-relevant event. Failures are logged and swallowed so
+ * auditing never breaks the request that triggered it.
+ */
+export async function recordSecurityEvent(req: Request | null, event: SecurityEventInput) {
+  try {
+    await prisma.securityEvent.create({
+      data: {
+        type: event.type,
+        userId: event.userId ?? null,
+        email: event.email ?? null,
+        ipAddress: req?.ip ?? null,
+        userAgent: req?.get('user-agent')?.slice(0, 500) ?? null,
+        details: event.details,
+      },
+    });
+  } catch (error) {
+    console.error('[Security] Failed to record event:', event.type, error);
+  }
+}
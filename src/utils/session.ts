@@ -1,14 +1,21 @@
-import { Response } from 'express';
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { ACCESS_TOKEN_TTL_SECONDS, generateToken } from './auth';
+import { generateOpaqueToken, hashOpaqueToken } from './tokens';
 
 const SESSION_COOKIE_NAME = 'auth_token';
-const COOKIE_MAX_AGE = 60 * 60 * 24 * 7; // 7 days in seconds
+const REFRESH_COOKIE_NAME = 'refresh_token';
+const REFRESH_COOKIE_PATH = '/api/auth';
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30);
+const IMPERSONATION_TTL_MINUTES = Number(process.env.IMPERSONATION_TTL_MINUTES || 30);
 
 export function setSessionCookie(res: Response, token: string) {
   res.cookie(SESSION_COOKIE_NAME, token, {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
     sameSite: 'lax',
-    maxAge: COOKIE_MAX_AGE * 1000,
+    maxAge: ACCESS_TOKEN_TTL_SECONDS * 1000,
     path: '/',
   });
 }
@@ -21,7 +28,262 @@ export function clearSessionCookie(res: Response) {
     expires: new Date(0),
     path: '/',
   });
+  res.cookie(REFRESH_COOKIE_NAME, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    expires: new Date(0),
+    path: REFRESH_COOKIE_PATH,
+  });
+}
+
+export function setRefreshCookie(res: Response, token: string, expiresAt: Date) {
+  res.cookie(REFRESH_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    expires: expiresAt,
+    path: REFRESH_COOKIE_PATH,
+  });
+}
+
+export function getRefreshToken(req: Request): string | undefined {
+  const bodyToken = req.body?.refreshToken;
+  if (typeof bodyToken === 'string' && bodyToken) {
+    return bodyToken;
+  }
+  return req.cookies?.[REFRESH_COOKIE_NAME] || undefined;
+}
+
+function refreshTokenExpiry() {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
 }
 
+interface SessionUser {
+  id: string;
+  email: string;
+  role: string;
+  tokenVersion: number;
+}
 
+/**
+ * Create a server-side session for a freshly authenticated user and set the
+ * access and refresh cookies on the response.
+ */
+export async function startSession(req: Request, res: Response, user: SessionUser) {
+  const refreshToken = generateOpaqueToken();
+  const expiresAt = refreshTokenExpiry();
+
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      userAgent: req.get('user-agent')?.slice(0, 500) ?? null,
+      ipAddress: req.ip ?? null,
+      expiresAt,
+      refreshTokens: {
+        create: {
+          tokenHash: hashOpaqueToken(refreshToken),
+          expiresAt,
+        },
+      },
+    },
+  });
+
+  const accessToken = generateToken({
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    sessionId: session.id,
+    tokenVersion: user.tokenVersion,
+  });
+
+  setSessionCookie(res, accessToken);
+  setRefreshCookie(res, refreshToken, expiresAt);
+
+  return session;
+}
+
+/**
+ * Mint a short-lived session in which the impersonator acts as the target user.
+ * It has no refresh token and no cookies are set, so the admin's own session is
+ * untouched; the access token is returned to the caller instead.
+ */
+export async function startImpersonationSession(
+  req: Request,
+  target: SessionUser,
+  impersonatorId: string,
+  reason: string | null
+) {
+  const expiresAt = new Date(Date.now() + IMPERSONATION_TTL_MINUTES * 60 * 1000);
+
+  const session = await prisma.session.create({
+    data: {
+      userId: target.id,
+      impersonatorId,
+      impersonationReason: reason,
+      userAgent: req.get('user-agent')?.slice(0, 500) ?? null,
+      ipAddress: req.ip ?? null,
+      expiresAt,
+    },
+  });
+
+  const accessToken = generateToken(
+    {
+      userId: target.id,
+      email: target.email,
+      role: target.role,
+      sessionId: session.id,
+      tokenVersion: target.tokenVersion,
+    },
+    IMPERSONATION_TTL_MINUTES * 60
+  );
+
+  return { session, accessToken };
+}
+
+/**
+ * Replace the access token for an existing session, e.g. after the user's own
+ * action bumped their token version and the current session should survive.
+ */
+export function reissueAccessToken(res: Response, user: SessionUser, sessionId: string) {
+  const accessToken = generateToken({
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    sessionId,
+    tokenVersion: user.tokenVersion,
+  });
 
+  setSessionCookie(res, accessToken);
+
+  return accessToken;
+}
+
+export type RefreshResult =
+  | { status: 'ok'; accessToken: string; refreshToken: string; expiresAt: Date; userId: string }
+  | { status: 'invalid' }
+  | { status: 'reused'; sessionId: string; userId: string };
+
+/**
+ * Exchange a refresh token for a new access/refresh pair. The presented token
+ * is marked rotated; presenting a rotated token again revokes its session.
+ */
+export async function rotateRefreshToken(token: string): Promise<RefreshResult> {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashOpaqueToken(token) },
+    include: {
+      session: {
+        include: { user: { include: { profile: { select: { role: true } } } } },
+      },
+    },
+  });
+
+  if (!stored) {
+    return { status: 'invalid' };
+  }
+
+  const { session } = stored;
+
+  if (stored.rotatedAt) {
+    await revokeSession(session.id, 'refresh_token_reuse');
+    console.warn(`[Session] Refresh token reuse detected, revoked session ${session.id} for user ${session.userId}`);
+    return { status: 'reused', sessionId: session.id, userId: session.userId };
+  }
+
+  const now = new Date();
+  if (
+    session.revokedAt ||
+    session.expiresAt <= now ||
+    stored.expiresAt <= now ||
+    session.user.suspendedAt ||
+    !session.user.profile
+  ) {
+    return { status: 'invalid' };
+  }
+
+  const nextToken = generateOpaqueToken();
+  const expiresAt = refreshTokenExpiry();
+
+  const rotated = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.refreshToken.updateMany({
+      where: { id: stored.id, rotatedAt: null },
+      data: { rotatedAt: now },
+    });
+
+    // Lost a race with a concurrent refresh using the same token
+    if (count === 0) {
+      return false;
+    }
+
+    await tx.refreshToken.create({
+      data: {
+        sessionId: session.id,
+        tokenHash: hashOpaqueToken(nextToken),
+        expiresAt,
+      },
+    });
+
+    await tx.session.update({
+      where: { id: session.id },
+      data: { lastUsedAt: now, expiresAt },
+    });
+
+    return true;
+  });
+
+  if (!rotated) {
+    await revokeSession(session.id, 'refresh_token_reuse');
+    return { status: 'reused', sessionId: session.id, userId: session.userId };
+  }
+
+  const accessToken = generateToken({
+    userId: session.userId,
+    email: session.user.email,
+    role: session.user.profile.role,
+    sessionId: session.id,
+    tokenVersion: session.user.tokenVersion,
+  });
+
+  return { status: 'ok', accessToken, refreshToken: nextToken, expiresAt, userId: session.userId };
+}
+
+/**
+ * Invalidate every access token issued to the user so far. Sessions survive,
+ * so the next refresh picks up the user's current role.
+ */
+export async function bumpTokenVersion(userId: string, db: Prisma.TransactionClient = prisma) {
+  const { tokenVersion } = await db.user.update({
+    where: { id: userId },
+    data: { tokenVersion: { increment: 1 } },
+    select: { tokenVersion: true },
+  });
+  return tokenVersion;
+}
+
+export async function revokeSession(
+  sessionId: string,
+  reason: string,
+  db: Prisma.TransactionClient = prisma
+) {
+  await db.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+}
+
+export async function revokeUserSessions(
+  userId: string,
+  reason: string,
+  options: { exceptSessionId?: string; db?: Prisma.TransactionClient } = {}
+) {
+  const db = options.db ?? prisma;
+  const { count } = await db.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(options.exceptSessionId && { id: { not: options.exceptSessionId } }),
+    },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return count;
+}
@@ -0,0 +1,102 @@
+import { DreamStatus, Prisma } from '@prisma/client';
+
+// The SLA clock runs while the dream waits on us, including time in review.
+// pending_inquiry waits on the dreamer (dueAt moves on by that time, see
+// resumeSlaClock), and interpreted/returned are finished.
+export const SLA_OPEN_STATUSES: DreamStatus[] = ['new', 'pending_interpretation', 'pending_review'];
+
+export function computeDueAt(createdAt: Date, slaHours: number | null | undefined) {
+  if (!slaHours) {
+    return null;
+  }
+  return new Date(createdAt.getTime() + slaHours * 60 * 60 * 1000);
+}
+
+/**
+ * dueAt is a fixed timestamp, so when a dream comes back from pending_inquiry
+ * push it forward by the time spent waiting on the dreamer. Call after the
+ * status update, in the same transaction.
+ */
+export async function resumeSlaClock(tx: Prisma.TransactionClient, dreamId: string, now = new Date()) {
+  const [dream, pausedAt] = await Promise.all([
+    tx.dream.findUnique({ where: { id: dreamId }, select: { dueAt: true } }),
+    tx.dreamStatusHistory.findFirst({
+      where: { dreamId, toStatus: 'pending_inquiry' },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    }),
+  ]);
+
+  if (!dream?.dueAt || !pausedAt) {
+    return;
+  }
+
+  const pausedMs = Math.max(0, now.getTime() - pausedAt.createdAt.getTime());
+
+  await tx.dream.update({
+    where: { id: dreamId },
+    data: { dueAt: new Date(dream.dueAt.getTime() + pausedMs) },
+  });
+}
+
+export function isDreamOverdue(
+  dream: { status: DreamStatus; dueAt: Date | null },
+  now = new Date()
+) {
+  return Boolean(dream.dueAt) && dream.dueAt! <= now && SLA_OPEN_STATUSES.includes(dream.status);
+}
+
+export function overdueDreamsWhere(now = new Date()): Prisma.DreamWhereInput {
+  return { dueAt: { lte: now }, status: { in: SLA_OPEN_STATUSES } };
+}
+
+/** Add the computed `isOverdue` flag to a dream returned by the API. */
+export function withSlaStatus<T extends { status: DreamStatus; dueAt: Date | null }>(dream: T, now = new Date()) {
+  return { ...dream, isOverdue: isDreamOverdue(dream, now) };
+}
+
+export interface SlaReportDream {
+  status: DreamStatus;
+  createdAt: Date;
+  dueAt: Date | null;
+  interpretedAt: Date | null;
+}
+
+/**
+ * Compliance for a group of dreams that had a deadline. Dreams that were
+ * returned or are waiting on the dreamer without being late don't count
+ * either way.
+ */
+export function summarizeSla(dreams: SlaReportDream[], now = new Date()) {
+  let met = 0;
+  let late = 0;
+  let overdue = 0;
+  let responseHoursTotal = 0;
+
+  for (const dream of dreams) {
+    if (!dream.dueAt) continue;
+
+    if (dream.interpretedAt) {
+      if (dream.interpretedAt <= dream.dueAt) {
+        met += 1;
+      } else {
+        late += 1;
+      }
+      responseHoursTotal += (dream.interpretedAt.getTime() - dream.createdAt.getTime()) / (60 * 60 * 1000);
+    } else if (isDreamOverdue(dream, now)) {
+      overdue += 1;
+    }
+  }
+
+  const decided = met + late + overdue;
+  const interpreted = met + late;
+
+  return {
+    total: dreams.length,
+    met,
+    late,
+    overdue,
+    complianceRate: decided > 0 ? Math.round((met / decided) * 1000) / 1000 : null,
+    averageResponseHours: interpreted > 0 ? Math.round((responseHoursTotal / interpreted) * 10) / 10 : null,
+  };
+}
@@ -0,0 +1,67 @@
+import { Prisma } from '@prisma/client';
+import { normalizeArabic } from './arabic';
+
+export const MAX_SYNONYMS = 30;
+const SLUG_PATTERN = /^[a-z0-9]+(?:[-_][a-z0-9]+)*$/;
+
+export function isValidSymbolSlug(value: unknown): value is string {
+  return typeof value === 'string' && value.length <= 64 && SLUG_PATTERN.test(value);
+}
+
+/** Trimmed, de-duplicated synonyms, or an error message. */
+export function parseSynonyms(value: unknown): string[] | { error: string } {
+  if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+    return { error: 'synonyms must be a list of strings' };
+  }
+  const synonyms = Array.from(new Set(value.map((item: string) => item.trim()).filter(Boolean)));
+  if (synonyms.length > MAX_SYNONYMS) {
+    return { error: `synonyms can have at most ${MAX_SYNONYMS} entries` };
+  }
+  return synonyms;
+}
+
+export function buildSymbolSearchText(symbol: { slug: string; name: string; synonyms: string[] }) {
+  return normalizeArabic([symbol.name, ...symbol.synonyms, symbol.slug].join('\n'));
+}
+
+export function formatSymbolReference(reference: {
+  id: string;
+  source: string;
+  interpretation: string;
+  citation: string | null;
+  sortOrder: number;
+}) {
+  return {
+    id: reference.id,
+    source: reference.source,
+    interpretation: reference.interpretation,
+    citation: reference.citation,
+    sortOrder: reference.sortOrder,
+  };
+}
+
+export function formatSymbol(symbol: {
+  id: string;
+  slug: string;
+  name: string;
+  synonyms: Prisma.JsonValue;
+  description: string | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  references?: Parameters<typeof formatSymbolReference>[0][];
+  _count?: { tags: number };
+}) {
+  return {
+    id: symbol.id,
+    slug: symbol.slug,
+    name: symbol.name,
+    synonyms: Array.isArray(symbol.synonyms) ? symbol.synonyms : [],
+    description: symbol.description,
+    isActive: symbol.isActive,
+    ...(symbol._count && { dreamCount: symbol._count.tags }),
+    ...(symbol.references && { references: symbol.references.map(formatSymbolReference) }),
+    createdAt: symbol.createdAt.toISOString(),
+    updatedAt: symbol.updatedAt.toISOString(),
+  };
+}
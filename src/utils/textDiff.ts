@@ -0,0 +1,94 @@
+export type DiffOp = { op: 'equal' | 'insert' | 'delete'; text: string };
+
+// Above this many cells the LCS table gets too large; fall back to replacing the changed middle wholesale
+const MAX_LCS_CELLS = 4_000_000;
+
+// Words and the whitespace between them, so joining the tokens gives back the original text
+function tokenizeWords(text: string) {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+function pushOp(ops: DiffOp[], op: DiffOp['op'], text: string) {
+  if (!text) return;
+  const last = ops[ops.length - 1];
+  if (last && last.op === op) {
+    last.text += text;
+  } else {
+    ops.push({ op, text });
+  }
+}
+
+/**
+ * Word-level diff from `before` to `after`. Joining the equal and delete ops
+ * gives `before`; joining equal and insert gives `after`.
+ */
+export function diffWords(before: string, after: string): DiffOp[] {
+  const a = tokenizeWords(before);
+  const b = tokenizeWords(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix += 1;
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const ops: DiffOp[] = [];
+
+  pushOp(ops, 'equal', a.slice(0, prefix).join(''));
+
+  if ((midA.length + 1) * (midB.length + 1) > MAX_LCS_CELLS) {
+    pushOp(ops, 'delete', midA.join(''));
+    pushOp(ops, 'insert', midB.join(''));
+  } else {
+    // lengths[i][j] = LCS length of midA[i..] and midB[j..], flattened
+    const width = midB.length + 1;
+    const lengths = new Uint32Array((midA.length + 1) * width);
+
+    for (let i = midA.length - 1; i >= 0; i -= 1) {
+      for (let j = midB.length - 1; j >= 0; j -= 1) {
+        lengths[i * width + j] =
+          midA[i] === midB[j]
+            ? lengths[(i + 1) * width + j + 1] + 1
+            : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        pushOp(ops, 'equal', midA[i]);
+        i += 1;
+        j += 1;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        pushOp(ops, 'delete', midA[i]);
+        i += 1;
+      } else {
+        pushOp(ops, 'insert', midB[j]);
+        j += 1;
+      }
+    }
+    pushOp(ops, 'delete', midA.slice(i).join(''));
+    pushOp(ops, 'insert', midB.slice(j).join(''));
+  }
+
+  pushOp(ops, 'equal', a.slice(a.length - suffix).join(''));
+
+  return ops;
+}
+
+export function summarizeDiff(ops: DiffOp[]) {
+  const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+  return {
+    wordsAdded: ops.filter((op) => op.op === 'insert').reduce((total, op) => total + countWords(op.text), 0),
+    wordsRemoved: ops.filter((op) => op.op === 'delete').reduce((total, op) => total + countWords(op.text), 0),
+  };
+}
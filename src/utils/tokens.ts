@@ -0,0 +1,10 @@
+import crypto from 'crypto';
+
+// Opaque tokens are sent to the user and only their SHA-256 hash is stored.
+export function generateOpaqueToken(bytes = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+export function hashOpaqueToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,153 @@
+import { Prisma, UsageKind } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { PageParams, buildPage } from './pagination';
+
+export type UsageReason =
+  | 'dream_submitted'
+  | 'dream_resubmitted'
+  | 'dream_edited'
+  | 'dream_returned'
+  | 'dream_deleted'
+  | 'dream_interpreted'
+  | 'dream_reopened'
+  // Usage counted before the ledger existed, written by backfill-usage-opening-balance.ts
+  | 'opening_balance';
+
+export interface UsageSource {
+  userId: string;
+  reason: UsageReason;
+  sourceType?: string;
+  sourceId?: string;
+}
+
+export type UsageAmounts = Partial<Record<UsageKind, number>>;
+
+// Ledger kind -> UserPlan counter column
+const COUNTER_FIELDS = {
+  letters: 'lettersUsed',
+  audio_minutes: 'audioMinutesUsed',
+  dreams: 'dreamsUsed',
+  interpretations: 'interpretationsUsed',
+} as const satisfies Record<UsageKind, keyof Prisma.UserPlanUncheckedUpdateInput>;
+
+const USAGE_KINDS = Object.keys(COUNTER_FIELDS) as UsageKind[];
+
+/**
+ * Append ledger rows for a counter change that has already been applied in
+ * the same transaction. Zero amounts are skipped.
+ */
+export async function recordUsage(
+  tx: Prisma.TransactionClient,
+  userPlanId: string,
+  source: UsageSource,
+  amounts: UsageAmounts
+) {
+  const data = USAGE_KINDS.filter((kind) => amounts[kind]).map((kind) => ({
+    userPlanId,
+    userId: source.userId,
+    kind,
+    amount: amounts[kind]!,
+    reason: source.reason,
+    sourceType: source.sourceType ?? null,
+    sourceId: source.sourceId ?? null,
+  }));
+
+  if (data.length > 0) {
+    await tx.usageEvent.createMany({ data });
+  }
+}
+
+/** Net usage per kind recorded for a subscription since `since`. */
+export async function sumUsage(
+  userPlanId: string,
+  since: Date,
+  db: Prisma.TransactionClient = prisma
+): Promise<Record<UsageKind, number>> {
+  const rows = await db.usageEvent.groupBy({
+    by: ['kind'],
+    where: { userPlanId, createdAt: { gte: since } },
+    _sum: { amount: true },
+  });
+
+  const totals = Object.fromEntries(USAGE_KINDS.map((kind) => [kind, 0])) as Record<UsageKind, number>;
+  for (const row of rows) {
+    totals[row.kind] = row._sum.amount ?? 0;
+  }
+  return totals;
+}
+
+/**
+ * Compare a subscription's counters with its ledger for the current period.
+ * With `apply`, counters that drifted are set to the ledger total; the
+ * ledger itself is never rewritten. Subscriptions without any ledger events
+ * predate the ledger (until their opening balance is backfilled) and are
+ * never changed: their counters are the only record of their usage.
+ */
+export async function reconcileUsage(userPlanId: string, options: { apply?: boolean } = {}) {
+  return prisma.$transaction(async (tx) => {
+    const subscription = await tx.userPlan.findUniqueOrThrow({ where: { id: userPlanId } });
+    const [ledger, eventCount] = await Promise.all([
+      sumUsage(userPlanId, subscription.startedAt, tx),
+      tx.usageEvent.count({ where: { userPlanId } }),
+    ]);
+    const ledgerMissing = eventCount === 0;
+
+    const kinds = USAGE_KINDS.map((kind) => {
+      const counter = subscription[COUNTER_FIELDS[kind]];
+      const expected = Math.max(0, ledger[kind]);
+      return { kind, counter, ledger: expected, drift: counter - expected };
+    });
+
+    const drifted = kinds.filter((entry) => entry.drift !== 0);
+
+    if (options.apply && !ledgerMissing && drifted.length > 0) {
+      await tx.userPlan.update({
+        where: { id: userPlanId },
+        data: Object.fromEntries(drifted.map((entry) => [COUNTER_FIELDS[entry.kind], entry.ledger])),
+      });
+    }
+
+    return {
+      userPlanId,
+      periodStartedAt: subscription.startedAt,
+      inSync: drifted.length === 0,
+      ledgerMissing,
+      applied: Boolean(options.apply) && !ledgerMissing && drifted.length > 0,
+      kinds,
+    };
+  });
+}
+
+function formatUsageEvent(event: {
+  id: string;
+  userPlanId: string;
+  kind: UsageKind;
+  amount: number;
+  reason: string;
+  sourceType: string | null;
+  sourceId: string | null;
+  createdAt: Date;
+}) {
+  return {
+    id: event.id,
+    userPlanId: event.userPlanId,
+    kind: event.kind,
+    amount: event.amount,
+    reason: event.reason,
+    source: event.sourceType ? { type: event.sourceType, id: event.sourceId } : null,
+    createdAt: event.createdAt.toISOString(),
+  };
+}
+
+/** One page of ledger events, newest first. */
+export async function listUsageEvents(where: Prisma.UsageEventWhereInput, page: PageParams) {
+  const rows = await prisma.usageEvent.findMany({
+    where,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: page.limit + 1,
+    ...(page.cursor && { cursor: { id: page.cursor }, skip: 1 }),
+  });
+
+  const { items, nextCursor } = buildPage(rows, page.limit);
+  return { events: items.map(formatUsageEvent), nextCursor };
+}
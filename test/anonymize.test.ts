@@ -0,0 +1,38 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EMAIL_MASK, NAME_MASK, PHONE_MASK, maskPersonalInfo } from '../src/utils/anonymize';
+
+describe('maskPersonalInfo', () => {
+  test('masks emails and phone numbers in any digit script', () => {
+    const result = maskPersonalInfo('راسلني على ahmad@example.com أو 0501234567 أو ٠٥٠١٢٣٤٥٦٧');
+    assert.equal(result.text, `راسلني على ${EMAIL_MASK} أو ${PHONE_MASK} أو ${PHONE_MASK}`);
+    assert.equal(result.masked, 3);
+  });
+
+  test('leaves dates and short numbers alone', () => {
+    const text = 'رأيت الحلم يوم 2024-01-15 بعد 3 أيام';
+    assert.deepEqual(maskPersonalInfo(text), { text, masked: 0 });
+  });
+
+  test('masks the given names with attached prefixes and spelling variants', () => {
+    const result = maskPersonalInfo('رأيت أحمد يعطي لاحمد هدية', { names: ['أحمد'] });
+    assert.equal(result.text, `رأيت ${NAME_MASK} يعطي ${NAME_MASK} هدية`);
+    assert.equal(result.masked, 2);
+  });
+
+  test('masks a full name once and compounds written either way', () => {
+    const result = maskPersonalInfo('جاءني عبد الله محمد ثم عبدالله وحده', { names: ['عبد الله محمد'] });
+    assert.equal(result.text, `جاءني ${NAME_MASK} ثم ${NAME_MASK} وحده`);
+    assert.equal(result.masked, 2);
+  });
+
+  test('does not mask common words that are only part of a compound name', () => {
+    const text = 'الحمد لله';
+    assert.deepEqual(maskPersonalInfo(text, { names: ['عبد الله'] }), { text, masked: 0 });
+  });
+
+  test('masks the word after a name introducer', () => {
+    const result = maskPersonalInfo('رأيت رجلا اسمه خالد');
+    assert.equal(result.text, `رأيت رجلا اسمه ${NAME_MASK}`);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeArabic, normalizeArabicWithOffsets, tokenize } from '../src/utils/arabic';
+
+describe('normalizeArabic', () => {
+  test('strips diacritics and tatweel', () => {
+    assert.equal(normalizeArabic('رَأَيْتُ'), 'رايت');
+    assert.equal(normalizeArabic('مـــاء'), 'ماء');
+  });
+
+  test('folds interchangeable letter forms', () => {
+    assert.equal(normalizeArabic('أحمد'), normalizeArabic('احمد'));
+    assert.equal(normalizeArabic('إسلام'), 'اسلام');
+    assert.equal(normalizeArabic('آمنة'), 'امنه');
+    assert.equal(normalizeArabic('موسى'), 'موسي');
+  });
+
+  test('converts Arabic-Indic digits and lowercases Latin text', () => {
+    assert.equal(normalizeArabic('٢٠٢٦'), '2026');
+    assert.equal(normalizeArabic('۱۲'), '12');
+    assert.equal(normalizeArabic('Snake'), 'snake');
+  });
+});
+
+describe('normalizeArabicWithOffsets', () => {
+  test('maps each normalized character back to the original text', () => {
+    const { normalized, offsets } = normalizeArabicWithOffsets('مَاء');
+    assert.equal(normalized, 'ماء');
+    // The fatha at index 1 is dropped
+    assert.deepEqual(offsets, [0, 2, 3]);
+  });
+});
+
+describe('tokenize', () => {
+  test('splits on anything that is not a letter or digit', () => {
+    assert.deepEqual(tokenize(normalizeArabic('ثعبان، في الماء! 3 مرات')), ['ثعبان', 'في', 'الماء', '3', 'مرات']);
+    assert.deepEqual(tokenize(''), []);
+  });
+});
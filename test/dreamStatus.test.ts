@@ -0,0 +1,53 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkTransition, getAllowedTransitions } from '../src/utils/dreamStatus';
+
+describe('dream status transitions', () => {
+  test('follow the lifecycle for the actors allowed to make them', () => {
+    assert.deepEqual(checkTransition('new', 'pending_interpretation', ['assigner'], { interpreterId: 'i1' }), {
+      allowed: true,
+    });
+    assert.deepEqual(
+      checkTransition('pending_interpretation', 'interpreted', ['interpreter'], { interpretation: 'خير' }),
+      { allowed: true }
+    );
+    assert.deepEqual(checkTransition('returned', 'new', ['dreamer'], {}), { allowed: true });
+  });
+
+  test('reject transitions that are not in the lifecycle for everyone', () => {
+    const check = checkTransition('new', 'interpreted', ['manager', 'assigner', 'system'], { interpretation: 'خير' });
+    assert.equal(check.allowed, false);
+    assert.equal(!check.allowed && check.code, 'INVALID_STATUS_TRANSITION');
+    assert.equal(!check.allowed && check.status, 400);
+  });
+
+  test('reject actors the transition does not list', () => {
+    const check = checkTransition('pending_interpretation', 'interpreted', ['dreamer'], { interpretation: 'خير' });
+    assert.equal(!check.allowed && check.code, 'STATUS_TRANSITION_FORBIDDEN');
+    assert.equal(!check.allowed && check.status, 403);
+
+    // Only a reviewer decides on a dream in review, not the interpreter
+    const review = checkTransition('pending_review', 'interpreted', ['interpreter'], { interpretation: 'خير' });
+    assert.equal(!review.allowed && review.code, 'STATUS_TRANSITION_FORBIDDEN');
+  });
+
+  test('enforce what the transition requires', () => {
+    const cases = [
+      { from: 'new', to: 'pending_interpretation', actors: ['assigner'], code: 'INTERPRETER_REQUIRED' },
+      { from: 'pending_interpretation', to: 'interpreted', actors: ['interpreter'], code: 'INTERPRETATION_REQUIRED' },
+      { from: 'pending_interpretation', to: 'returned', actors: ['interpreter'], code: 'REASON_REQUIRED' },
+      { from: 'interpreted', to: 'pending_interpretation', actors: ['manager'], code: 'REASON_REQUIRED' },
+    ] as const;
+
+    for (const { from, to, actors, code } of cases) {
+      const check = checkTransition(from, to, [...actors], { interpretation: '   ', reason: '' });
+      assert.equal(!check.allowed && check.code, code, `${from} -> ${to}`);
+    }
+  });
+
+  test('list the transitions open to the given actors', () => {
+    assert.deepEqual(getAllowedTransitions('pending_inquiry', ['dreamer']), ['pending_interpretation']);
+    assert.deepEqual(getAllowedTransitions('interpreted', ['interpreter']), []);
+    assert.deepEqual(getAllowedTransitions('returned', ['dreamer']), ['new']);
+  });
+});
@@ -0,0 +1,115 @@
+import { execSync } from 'child_process';
+import { once } from 'events';
+import { AddressInfo } from 'net';
+import type { PrismaClient } from '@prisma/client';
+
+// The test database is wiped and recreated from prisma/schema.prisma on every
+// run, so it must never be the one in .env.
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+export const skipWithoutDatabase = TEST_DATABASE_URL ? false : 'TEST_DATABASE_URL is not set';
+
+// Concurrency tests open more interactive transactions at once than Prisma's
+// default pool (cpus * 2 + 1) hands out before timing out
+function withConnectionLimit(url: string) {
+  if (/[?&]connection_limit=/.test(url)) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}connection_limit=20`;
+}
+
+export interface TestApp {
+  prisma: PrismaClient;
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Reset the test database, then start the app on a random port. Everything
+ * under src/ is loaded from here so it picks up the test environment.
+ */
+export async function startTestApp(): Promise<TestApp> {
+  process.env.DATABASE_URL = withConnectionLimit(TEST_DATABASE_URL!);
+  process.env.NODE_ENV = 'test';
+  process.env.DREAM_AUTO_ASSIGN_STRATEGY = 'off';
+
+  execSync('npx prisma db push --force-reset --skip-generate', { stdio: 'ignore', env: process.env });
+
+  const { createApp } = await import('../src/app');
+  const { default: prisma } = await import('../src/lib/prisma');
+
+  const server = createApp().listen(0);
+  await once(server, 'listening');
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    prisma,
+    baseUrl: `http://127.0.0.1:${port}`,
+    async close() {
+      server.close();
+      await prisma.$disconnect();
+    },
+  };
+}
+
+let sequence = 0;
+
+/** A verified user with a live session, and an access token for it. */
+export async function createUser(prisma: PrismaClient, role: 'dreamer' | 'interpreter') {
+  const { generateToken } = await import('../src/utils/auth');
+
+  sequence += 1;
+  const email = `${role}-${sequence}-${Date.now()}@example.test`;
+
+  const user = await prisma.user.create({
+    data: {
+      email,
+      password: 'not-used',
+      emailVerifiedAt: new Date(),
+      profile: { create: { email, fullName: `${role} ${sequence}`, role } },
+    },
+  });
+
+  const session = await prisma.session.create({
+    data: { userId: user.id, expiresAt: new Date(Date.now() + 60 * 60 * 1000) },
+  });
+
+  const token = generateToken({ userId: user.id, email, role, sessionId: session.id, tokenVersion: 0 });
+
+  return { id: user.id, token };
+}
+
+/** A dreamer subscribed to a fresh plan with the given limits (unlimited unless set). */
+export async function createSubscribedDreamer(
+  prisma: PrismaClient,
+  limits: { maxDreams?: number; maxInterpretations?: number; letterQuota?: number }
+) {
+  const dreamer = await createUser(prisma, 'dreamer');
+
+  const plan = await prisma.plan.create({
+    data: {
+      name: `Test plan ${dreamer.id}`,
+      price: 0,
+      currency: 'USD',
+      durationDays: 30,
+      maxDreams: limits.maxDreams ?? null,
+      maxInterpretations: limits.maxInterpretations ?? null,
+      letterQuota: limits.letterQuota ?? null,
+      features: [],
+    },
+  });
+
+  const subscription = await prisma.userPlan.create({
+    data: { userId: dreamer.id, planId: plan.id },
+  });
+
+  return { ...dreamer, subscriptionId: subscription.id };
+}
+
+export async function request(app: TestApp, method: string, path: string, token: string, body?: unknown) {
+  const response = await fetch(`${app.baseUrl}${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  return { status: response.status, body: (await response.json()) as Record<string, any> };
+}
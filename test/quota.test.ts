@@ -0,0 +1,129 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  TestApp,
+  createSubscribedDreamer,
+  createUser,
+  request,
+  skipWithoutDatabase,
+  startTestApp,
+} from './helpers';
+
+const PARALLEL_REQUESTS = 10;
+
+function countStatuses(responses: Array<{ status: number }>) {
+  const counts: Record<number, number> = {};
+  for (const { status } of responses) {
+    counts[status] = (counts[status] ?? 0) + 1;
+  }
+  return counts;
+}
+
+describe('plan quotas under concurrent requests', { skip: skipWithoutDatabase }, () => {
+  let app: TestApp;
+
+  before(async () => {
+    app = await startTestApp();
+  });
+
+  after(async () => {
+    await app?.close();
+  });
+
+  test('parallel dream submissions stop at maxDreams', async () => {
+    const dreamer = await createSubscribedDreamer(app.prisma, { maxDreams: 3 });
+
+    const responses = await Promise.all(
+      Array.from({ length: PARALLEL_REQUESTS }, (_, i) =>
+        request(app, 'POST', '/api/dreams', dreamer.token, { title: `Dream ${i}`, description: 'رأيت في المنام' })
+      )
+    );
+
+    assert.deepEqual(countStatuses(responses), { 201: 3, 403: PARALLEL_REQUESTS - 3 });
+    for (const response of responses.filter(({ status }) => status === 403)) {
+      assert.equal(response.body.code, 'MAX_DREAMS_REACHED');
+    }
+
+    const subscription = await app.prisma.userPlan.findUniqueOrThrow({ where: { id: dreamer.subscriptionId } });
+    assert.equal(subscription.dreamsUsed, 3);
+    assert.equal(await app.prisma.dream.count({ where: { dreamerId: dreamer.id } }), 3);
+  });
+
+  test('parallel dream submissions stop at letterQuota', async () => {
+    const dreamer = await createSubscribedDreamer(app.prisma, { letterQuota: 100 });
+    const description = 'x'.repeat(30);
+
+    const responses = await Promise.all(
+      Array.from({ length: PARALLEL_REQUESTS }, (_, i) =>
+        request(app, 'POST', '/api/dreams', dreamer.token, { title: `Dream ${i}`, description })
+      )
+    );
+
+    // 3 x 30 letters fit in 100; a fourth would need 120
+    assert.deepEqual(countStatuses(responses), { 201: 3, 403: PARALLEL_REQUESTS - 3 });
+    for (const response of responses.filter(({ status }) => status === 403)) {
+      assert.equal(response.body.code, 'QUOTA_EXCEEDED');
+    }
+
+    const subscription = await app.prisma.userPlan.findUniqueOrThrow({ where: { id: dreamer.subscriptionId } });
+    assert.equal(subscription.lettersUsed, 90);
+  });
+
+  test('a longer description is charged against letterQuota', async () => {
+    const dreamer = await createSubscribedDreamer(app.prisma, { letterQuota: 50 });
+
+    const created = await request(app, 'POST', '/api/dreams', dreamer.token, { title: 'Dream', description: 'x'.repeat(10) });
+    assert.equal(created.status, 201);
+
+    const tooLong = await request(app, 'PATCH', `/api/dreams/${created.body.id}`, dreamer.token, { notes: 'x'.repeat(60) });
+    assert.equal(tooLong.status, 403);
+    assert.equal(tooLong.body.code, 'QUOTA_EXCEEDED');
+
+    const edited = await request(app, 'PATCH', `/api/dreams/${created.body.id}`, dreamer.token, { notes: 'x'.repeat(40) });
+    assert.equal(edited.status, 200);
+
+    const subscription = await app.prisma.userPlan.findUniqueOrThrow({ where: { id: dreamer.subscriptionId } });
+    assert.equal(subscription.lettersUsed, 40);
+  });
+
+  test('parallel interpretations stop at maxInterpretations', async () => {
+    const dreamer = await createSubscribedDreamer(app.prisma, { maxInterpretations: 2 });
+    const interpreter = await createUser(app.prisma, 'interpreter');
+
+    const dreams = await Promise.all(
+      Array.from({ length: PARALLEL_REQUESTS }, (_, i) =>
+        app.prisma.dream.create({
+          data: {
+            dreamerId: dreamer.id,
+            interpreterId: interpreter.id,
+            userPlanId: dreamer.subscriptionId,
+            title: `Dream ${i}`,
+            content: 'رأيت في المنام',
+            status: 'pending_interpretation',
+          },
+        })
+      )
+    );
+
+    const responses = await Promise.all(
+      dreams.map((dream) =>
+        request(app, 'PATCH', `/api/dreams/${dream.id}`, interpreter.token, {
+          status: 'interpreted',
+          interpretation: 'خير إن شاء الله',
+        })
+      )
+    );
+
+    assert.deepEqual(countStatuses(responses), { 200: 2, 403: PARALLEL_REQUESTS - 2 });
+    for (const response of responses.filter(({ status }) => status === 403)) {
+      assert.equal(response.body.code, 'INTERPRETATION_QUOTA_EXCEEDED');
+    }
+
+    const subscription = await app.prisma.userPlan.findUniqueOrThrow({ where: { id: dreamer.subscriptionId } });
+    assert.equal(subscription.interpretationsUsed, 2);
+    assert.equal(
+      await app.prisma.dream.count({ where: { dreamerId: dreamer.id, status: 'interpreted' } }),
+      2
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeDueAt, isDreamOverdue, summarizeSla } from '../src/utils/sla';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('computeDueAt', () => {
+  test('adds the plan SLA hours to the start time', () => {
+    const createdAt = new Date('2026-01-01T10:00:00Z');
+    assert.deepEqual(computeDueAt(createdAt, 24), new Date('2026-01-02T10:00:00Z'));
+    assert.deepEqual(computeDueAt(createdAt, 1.5), new Date(createdAt.getTime() + 1.5 * HOUR));
+  });
+
+  test('has no deadline without SLA hours', () => {
+    const createdAt = new Date('2026-01-01T10:00:00Z');
+    assert.equal(computeDueAt(createdAt, null), null);
+    assert.equal(computeDueAt(createdAt, undefined), null);
+    assert.equal(computeDueAt(createdAt, 0), null);
+  });
+});
+
+describe('isDreamOverdue', () => {
+  const now = new Date('2026-01-02T10:00:00Z');
+  const past = new Date(now.getTime() - HOUR);
+  const future = new Date(now.getTime() + HOUR);
+
+  test('only open dreams past their deadline are overdue', () => {
+    assert.equal(isDreamOverdue({ status: 'pending_interpretation', dueAt: past }, now), true);
+    assert.equal(isDreamOverdue({ status: 'pending_review', dueAt: now }, now), true);
+    assert.equal(isDreamOverdue({ status: 'pending_interpretation', dueAt: future }, now), false);
+    assert.equal(isDreamOverdue({ status: 'new', dueAt: null }, now), false);
+  });
+
+  test('dreams waiting on the dreamer or finished are never overdue', () => {
+    assert.equal(isDreamOverdue({ status: 'pending_inquiry', dueAt: past }, now), false);
+    assert.equal(isDreamOverdue({ status: 'interpreted', dueAt: past }, now), false);
+    assert.equal(isDreamOverdue({ status: 'returned', dueAt: past }, now), false);
+  });
+});
+
+describe('summarizeSla', () => {
+  test('counts met, late and overdue dreams and ignores ones without a deadline', () => {
+    const now = new Date('2026-01-10T00:00:00Z');
+    const createdAt = new Date('2026-01-01T00:00:00Z');
+    const dueAt = new Date(createdAt.getTime() + 24 * HOUR);
+
+    const summary = summarizeSla(
+      [
+        { status: 'interpreted', createdAt, dueAt, interpretedAt: new Date(createdAt.getTime() + 12 * HOUR) },
+        { status: 'interpreted', createdAt, dueAt, interpretedAt: new Date(createdAt.getTime() + 36 * HOUR) },
+        { status: 'pending_interpretation', createdAt, dueAt, interpretedAt: null },
+        { status: 'new', createdAt, dueAt: null, interpretedAt: null },
+      ],
+      now
+    );
+
+    assert.deepEqual(summary, {
+      total: 4,
+      met: 1,
+      late: 1,
+      overdue: 1,
+      complianceRate: 0.333,
+      averageResponseHours: 24,
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { base32Decode, base32Encode, verifyTotp } from '../src/utils/totp';
+
+// The RFC 6238 SHA-1 test secret ("12345678901234567890"); the RFC's 8-digit
+// codes are truncated to the 6 digits used here
+const SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('base32', () => {
+  test('round-trips and matches the RFC 4648 encoding', () => {
+    assert.equal(SECRET, 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    assert.equal(base32Decode(SECRET).toString(), '12345678901234567890');
+    assert.equal(base32Decode('gezd gnbv').toString('hex'), base32Decode('GEZDGNBV').toString('hex'));
+  });
+
+  test('rejects characters outside the alphabet', () => {
+    assert.throws(() => base32Decode('GEZD1'), /Invalid base32 character/);
+  });
+});
+
+describe('verifyTotp', () => {
+  test('accepts the RFC 6238 test vectors and returns their time step', () => {
+    assert.equal(verifyTotp(SECRET, '287082', { now: 59_000, window: 0 }), 1);
+    assert.equal(verifyTotp(SECRET, '081804', { now: 1111111109_000, window: 0 }), 37037036);
+    assert.equal(verifyTotp(SECRET, '005924', { now: 1234567890_000, window: 0 }), 41152263);
+  });
+
+  test('allows one step of clock drift by default', () => {
+    // 287082 is the code for step 1; 89s is step 2
+    assert.equal(verifyTotp(SECRET, '287082', { now: 89_000 }), 1);
+    assert.equal(verifyTotp(SECRET, '287082', { now: 89_000, window: 0 }), null);
+    assert.equal(verifyTotp(SECRET, '287082', { now: 119_000 }), null);
+  });
+
+  test('rejects a step that was already used', () => {
+    assert.equal(verifyTotp(SECRET, '287082', { now: 59_000, lastUsedStep: 1 }), null);
+    assert.equal(verifyTotp(SECRET, '287082', { now: 59_000, lastUsedStep: 0 }), 1);
+  });
+
+  test('rejects wrong and malformed codes', () => {
+    assert.equal(verifyTotp(SECRET, '287083', { now: 59_000 }), null);
+    assert.equal(verifyTotp(SECRET, '28708', { now: 59_000 }), null);
+    assert.equal(verifyTotp(SECRET, 'abcdef', { now: 59_000 }), null);
+    assert.equal(verifyTotp(SECRET, '287 082', { now: 59_000 }), 1);
+  });
+});